@@ -40,5 +40,11 @@ export const CodexProviderPlugin: Plugin = async () => {
         options,
       }
     },
+    async "chat.params"(input, output) {
+      // Lets the provider keep each session's Codex conversation apart from others with the same opening.
+      if (input.model.providerID === "codex") {
+        output.options["sessionId"] = input.message.sessionID
+      }
+    },
   } satisfies Hooks
 }
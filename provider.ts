@@ -1 +1,21 @@
 export { createCodexProvider } from "./src/codexProvider"
+export {
+  CodexAbortedError,
+  CodexBinaryNotFoundError,
+  CodexConnectionError,
+  CodexCrashLoopError,
+  CodexError,
+  CodexIdleTimeoutError,
+  CodexInitializeTimeoutError,
+  CodexInvalidOptionsError,
+  CodexNotLoggedInError,
+  CodexProcessExitError,
+  CodexProtocolError,
+  CodexRateLimitError,
+  CodexSandboxDeniedError,
+  CodexSpawnError,
+  CodexTimeoutError,
+  CodexTotalTimeoutError,
+  CodexUnsupportedVersionError,
+  CodexUsageLimitError,
+} from "./src/errors"
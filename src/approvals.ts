@@ -0,0 +1,66 @@
+import { codexLog } from "./logger"
+import type { CodexApprovalDecision, CodexApprovalRequest, CodexProviderOptions, JsonValue } from "./types"
+
+export const APPROVAL_REQUEST_METHOD = "elicitation/create"
+export const APPROVAL_TOOL_NAME = "codex_approval"
+
+const POLICY_DECISIONS = {
+  approve: "approved",
+  "approve-for-session": "approved_for_session",
+  deny: "denied",
+} as const satisfies Record<NonNullable<CodexProviderOptions["approvalDecision"]>, CodexApprovalDecision>
+
+/** The answer when neither `approvalHandler` nor `approvalDecision` is configured. */
+export const DEFAULT_APPROVAL_DECISION = "deny" satisfies CodexProviderOptions["approvalDecision"]
+
+const VALID_DECISIONS = new Set<CodexApprovalDecision>(["approved", "approved_for_session", "denied", "abort"])
+
+/**
+ * Parses Codex's exec/apply-patch approval elicitation.
+ * Returns undefined for elicitations that are not approval requests.
+ */
+export function parseApprovalRequest(params: JsonValue | undefined): CodexApprovalRequest | undefined {
+  if (!params || typeof params !== "object" || Array.isArray(params)) return undefined
+  const elicitation = params["codex_elicitation"]
+  const kind = elicitation === "exec-approval" ? "exec" : elicitation === "patch-approval" ? "patch" : undefined
+  if (!kind) return undefined
+
+  const command = params["codex_command"]
+  const toolCallId = params["codex_mcp_tool_call_id"]
+  return {
+    kind,
+    message: typeof params["message"] === "string" ? params["message"] : "",
+    callId: typeof params["codex_call_id"] === "string" ? params["codex_call_id"] : undefined,
+    toolCallRequestId: typeof toolCallId === "string" || typeof toolCallId === "number" ? String(toolCallId) : undefined,
+    command: Array.isArray(command) ? command.map(String) : undefined,
+    cwd: typeof params["codex_cwd"] === "string" ? params["codex_cwd"] : undefined,
+    reason: typeof params["codex_reason"] === "string" ? params["codex_reason"] : undefined,
+    changes: params["codex_changes"] ?? undefined,
+    raw: params,
+  }
+}
+
+/**
+ * Decides an approval request with the configured handler, falling back to the
+ * static `approvalDecision` policy. Handler failures deny the request.
+ */
+export async function decideApproval(
+  request: CodexApprovalRequest,
+  options: Pick<CodexProviderOptions, "approvalHandler" | "approvalDecision">,
+  abortSignal?: AbortSignal,
+): Promise<CodexApprovalDecision> {
+  const fallback = POLICY_DECISIONS[options.approvalDecision ?? DEFAULT_APPROVAL_DECISION]
+  if (!options.approvalHandler) return fallback
+
+  try {
+    const decision = await options.approvalHandler(request, { abortSignal })
+    if (decision && VALID_DECISIONS.has(decision)) return decision
+    codexLog("approval.invalid_decision", { decision })
+    return "denied"
+  } catch (error) {
+    codexLog("approval.handler_failed", {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return "denied"
+  }
+}
@@ -0,0 +1,166 @@
+import { execFile } from "node:child_process"
+import { accessSync, constants } from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { promisify } from "node:util"
+import { CodexBinaryNotFoundError, CodexUnsupportedVersionError } from "./errors"
+import { codexLog, codexWarn } from "./logger"
+import type { CodexProviderOptions } from "./types"
+
+/**
+ * Codex releases this provider works with. Older ones lack parts of the
+ * `mcp-server` protocol it relies on (request ids on events, elicitation
+ * approvals); newer ones are allowed but were not tested.
+ */
+export const SUPPORTED_CODEX_VERSIONS = {
+  MIN: "0.40.0",
+  MAX_TESTED: "0.50.x",
+} as const
+
+const VERSION_TIMEOUT_MS = 5000
+const execFileAsync = promisify(execFile)
+
+export type CodexBinaryInfo = {
+  /** Absolute path of the resolved binary. */
+  command: string
+  /** Version reported by `codex --version`; undefined when it could not be read. */
+  version?: string
+  /** Set when the binary runs but is outside the tested range. */
+  warning?: string
+}
+
+/** How long a failed lookup or version check is reused before the binary is probed again. */
+export const FAILED_CHECK_TTL_MS = 30 * 1000
+
+type CachedCheck = { info: Promise<CodexBinaryInfo>; failedAt?: number }
+
+// Failures are kept briefly, so a missing or outdated binary is not probed on every call,
+// yet installing or upgrading Codex takes effect without restarting opencode.
+const cache = new Map<string, CachedCheck>()
+const versionChecks = new Map<string, CachedCheck>()
+
+function cached(checks: Map<string, CachedCheck>, key: string, load: () => Promise<CodexBinaryInfo>) {
+  const entry = checks.get(key)
+  if (entry && (entry.failedAt === undefined || Date.now() - entry.failedAt < FAILED_CHECK_TTL_MS)) {
+    return entry.info
+  }
+  const check: CachedCheck = { info: load() }
+  check.info.catch(() => {
+    check.failedAt = Date.now()
+  })
+  checks.set(key, check)
+  return check.info
+}
+
+/**
+ * Resolves the `codex` binary to spawn and checks its version, once per
+ * binary and `PATH`; a failure is retried after `FAILED_CHECK_TTL_MS`. An explicit `binary` path is used as is; a bare command
+ * name is looked up on `PATH` and then in the usual install locations.
+ * Rejects with `CodexBinaryNotFoundError` or `CodexUnsupportedVersionError`.
+ */
+export function resolveCodexBinary(options: Pick<CodexProviderOptions, "binary" | "env">): Promise<CodexBinaryInfo> {
+  const requested = options.binary ?? "codex"
+  const searchPath = options.env?.["PATH"] ?? process.env["PATH"] ?? ""
+  return cached(cache, JSON.stringify([requested, searchPath]), () => resolve(requested, searchPath))
+}
+
+async function resolve(requested: string, searchPath: string): Promise<CodexBinaryInfo> {
+  const candidates = binaryCandidates(requested, searchPath)
+  const command = candidates.find(isExecutable)
+  if (!command) {
+    throw new CodexBinaryNotFoundError({ command: requested, searched: candidates })
+  }
+
+  // Different names or PATHs can lead to the same file; it is checked once.
+  return cached(versionChecks, command, () =>
+    checkVersion(command).then((info) => {
+      codexLog("binary.resolved", { ...info })
+      if (info.warning) codexWarn(info.warning)
+      return info
+    }),
+  )
+}
+
+export function clearCodexBinaryCache() {
+  cache.clear()
+  versionChecks.clear()
+}
+
+/** Compares dotted versions numerically; an `x` component matches anything. */
+export function compareVersions(a: string, b: string) {
+  const left = a.split("-")[0]!.split(".")
+  const right = b.split("-")[0]!.split(".")
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const l = left[i] ?? "0"
+    const r = right[i] ?? "0"
+    if (l === "x" || r === "x") return 0
+    const diff = Number(l) - Number(r)
+    if (diff !== 0) return Math.sign(diff)
+  }
+  return 0
+}
+
+/** Pulls the version out of `codex --version` output such as `codex-cli 0.46.0`. */
+export function parseCodexVersion(output: string) {
+  return /\bcodex(?:-cli)?\s+v?(\d+\.\d+\.\d+(?:-[\w.]+)?)/i.exec(output)?.[1]
+}
+
+function binaryCandidates(requested: string, searchPath: string) {
+  if (path.isAbsolute(requested) || requested.includes("/") || requested.includes("\\")) {
+    return [path.resolve(requested)]
+  }
+  const home = os.homedir()
+  const dirs = [
+    ...searchPath.split(path.delimiter).filter(Boolean),
+    path.join(home, ".local", "bin"),
+    path.join(home, ".npm-global", "bin"),
+    path.join(home, ".bun", "bin"),
+    path.join(home, ".cargo", "bin"),
+    path.join(home, ".volta", "bin"),
+    "/opt/homebrew/bin",
+    "/usr/local/bin",
+  ]
+  const extensions = process.platform === "win32" ? ["", ...(process.env["PATHEXT"] ?? ".EXE;.CMD").split(";")] : [""]
+  const candidates = dirs.flatMap((dir) => extensions.map((extension) => path.join(dir, `${requested}${extension}`)))
+  return [...new Set(candidates)]
+}
+
+function isExecutable(file: string) {
+  try {
+    accessSync(file, process.platform === "win32" ? constants.F_OK : constants.X_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function checkVersion(command: string): Promise<CodexBinaryInfo> {
+  let output: string
+  try {
+    // Asynchronous, so a slow `--version` does not stall opencode's event loop.
+    const { stdout } = await execFileAsync(command, ["--version"], { encoding: "utf-8", timeout: VERSION_TIMEOUT_MS })
+    output = stdout
+  } catch (error) {
+    // Spawning it may still work; let the MCP handshake have the final word.
+    codexLog("binary.version_failed", { command, error: String(error) })
+    return { command }
+  }
+
+  const version = parseCodexVersion(output)
+  if (!version) {
+    // Not the Codex CLI itself (a wrapper script, a test double); nothing to compare.
+    codexLog("binary.version_unrecognized", { command, output: output.trim() })
+    return { command }
+  }
+  if (compareVersions(version, SUPPORTED_CODEX_VERSIONS.MIN) < 0) {
+    throw new CodexUnsupportedVersionError({ command, version, minVersion: SUPPORTED_CODEX_VERSIONS.MIN })
+  }
+  if (compareVersions(version, SUPPORTED_CODEX_VERSIONS.MAX_TESTED) > 0) {
+    return {
+      command,
+      version,
+      warning: `Codex ${version} at ${command} is newer than the versions this provider was tested with (up to ${SUPPORTED_CODEX_VERSIONS.MAX_TESTED}); if calls fail, pin Codex to ${SUPPORTED_CODEX_VERSIONS.MAX_TESTED} or update opencode-codex-provider.`,
+    }
+  }
+  return { command, version }
+}
@@ -0,0 +1,188 @@
+import { randomUUID } from "node:crypto"
+import { createWriteStream, mkdirSync, readFileSync, type WriteStream } from "node:fs"
+import path from "node:path"
+import { CodexError } from "./errors"
+import { codexLog } from "./logger"
+import { BaseTransport, type Transport, type TransportCloseInfo } from "./transport"
+import type { JsonRpcMessage, JsonValue } from "./types"
+
+/** One line of a cassette: a message in either direction, or the end of the connection. */
+export type CassetteEntry =
+  | { offsetMs: number; direction: "send"; message: JsonValue }
+  | { offsetMs: number; direction: "receive"; message: JsonValue }
+  | {
+      offsetMs: number
+      direction: "close"
+      code: number | null
+      signal: NodeJS.Signals | null
+      diagnostics?: string
+      error?: { name: string; message: string }
+    }
+
+type WithoutOffset<T> = T extends unknown ? Omit<T, "offsetMs"> : never
+
+/** A fresh cassette path in `dir`, one per recorded connection. */
+export function cassettePath(dir: string) {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+  return path.join(dir, `codex-${stamp}-${randomUUID().slice(0, 8)}.jsonl`)
+}
+
+export function readCassette(file: string): CassetteEntry[] {
+  return readFileSync(file, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as CassetteEntry)
+}
+
+/**
+ * Wraps a transport and writes every message that passes through it, with its
+ * offset from the start of the connection, to a JSONL cassette.
+ */
+export class RecordingTransport implements Transport {
+  private readonly startedAt = Date.now()
+  private readonly out: WriteStream
+
+  constructor(
+    private readonly inner: Transport,
+    readonly file: string,
+  ) {
+    mkdirSync(path.dirname(file), { recursive: true })
+    this.out = createWriteStream(file, { flags: "a" })
+    this.out.on("error", (error) => codexLog("cassette.write_failed", { file, error: String(error) }))
+    // Registered before the client's handlers, so a message is on tape before it is acted on.
+    inner.onMessage((message) => this.record({ direction: "receive", message }))
+    inner.onClose((info) => {
+      this.recordClose(info)
+      this.out.end()
+    })
+  }
+
+  send(message: JsonRpcMessage) {
+    this.record({ direction: "send", message })
+    this.inner.send(message)
+  }
+
+  onMessage(handler: (message: JsonValue) => void) {
+    return this.inner.onMessage(handler)
+  }
+
+  onClose(handler: (info: TransportCloseInfo) => void) {
+    return this.inner.onClose(handler)
+  }
+
+  close(options?: { force?: boolean }) {
+    this.inner.close(options)
+    this.out.end()
+  }
+
+  setProtocolVersion(version: string) {
+    this.inner.setProtocolVersion?.(version)
+  }
+
+  ref() {
+    this.inner.ref?.()
+  }
+
+  unref() {
+    this.inner.unref?.()
+  }
+
+  private recordClose({ code, signal, diagnostics, error }: TransportCloseInfo) {
+    this.record({
+      direction: "close",
+      code,
+      signal,
+      ...(diagnostics ? { diagnostics } : {}),
+      ...(error ? { error: { name: error.name, message: error.message } } : {}),
+    })
+  }
+
+  private record(entry: WithoutOffset<CassetteEntry>) {
+    if (this.out.writableEnded) return
+    this.out.write(JSON.stringify({ offsetMs: Date.now() - this.startedAt, ...entry }) + "\n")
+  }
+}
+
+/**
+ * Plays a cassette back to `CodexMCPClient` in place of a server. Recorded
+ * server messages are released once the client has sent everything that
+ * preceded them on tape, after the recorded delay divided by `speed`
+ * (`Infinity` plays back without waiting).
+ */
+export class ReplayTransport extends BaseTransport {
+  private sent = 0
+  private wake?: () => void
+
+  constructor(
+    private readonly entries: CassetteEntry[],
+    private readonly options: { speed?: number } = {},
+  ) {
+    super()
+    setTimeout(() => void this.play(), 0)
+  }
+
+  static fromFile(file: string, options?: { speed?: number }) {
+    return new ReplayTransport(readCassette(file), options)
+  }
+
+  send(message: JsonRpcMessage) {
+    if (this.closed) return
+    const expected = this.entries.filter((entry) => entry.direction === "send")[this.sent]
+    const method = "method" in message ? message.method : undefined
+    const expectedMethod =
+      expected && expected.direction === "send" ? (expected.message as { method?: string }).method : undefined
+    if (method !== expectedMethod) {
+      codexLog("replay.diverged", { index: this.sent, sent: method ?? "response", expected: expectedMethod ?? "response" })
+    }
+    this.sent += 1
+    this.wake?.()
+  }
+
+  protected shutdown() {
+    this.wake?.()
+  }
+
+  private async play() {
+    const speed = this.options.speed ?? 1
+    let sends = 0
+    let previousOffset = 0
+    for (const entry of this.entries) {
+      if (this.closed) return
+      if (entry.direction === "send") {
+        sends += 1
+        await this.waitForSends(sends)
+        previousOffset = entry.offsetMs
+        continue
+      }
+      const delay = speed === Infinity ? 0 : Math.max(0, entry.offsetMs - previousOffset) / speed
+      previousOffset = entry.offsetMs
+      if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay))
+      if (this.closed) return
+      if (entry.direction === "receive") {
+        this.deliver(entry.message)
+        continue
+      }
+      this.finish({
+        code: entry.code,
+        signal: entry.signal,
+        diagnostics: entry.diagnostics,
+        error: entry.error ? new CodexError({ name: entry.error.name, message: entry.error.message }) : undefined,
+      })
+      return
+    }
+  }
+
+  private waitForSends(count: number) {
+    return new Promise<void>((resolve) => {
+      const check = () => {
+        if (this.sent >= count || this.closed) {
+          this.wake = undefined
+          resolve()
+          return
+        }
+        this.wake = check
+      }
+      check()
+    })
+  }
+}
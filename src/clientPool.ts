@@ -0,0 +1,252 @@
+import { cassettePath, RecordingTransport, ReplayTransport } from "./cassette"
+import { CodexMCPClient } from "./codexClient"
+import { CodexCrashLoopError, CodexError } from "./errors"
+import { HttpTransport } from "./httpTransport"
+import { codexLog } from "./logger"
+import { CrashSupervisor, type ProcessExit, type SupervisorStatus } from "./supervisor"
+import { StdioTransport, type Transport } from "./transport"
+import type { CodexClientHooks, CodexProviderOptions } from "./types"
+import { WebSocketTransport } from "./webSocketTransport"
+
+export const DEFAULT_PROCESS_IDLE_TTL = 5 * 60 * 1000
+
+export type CodexClientFactory = (options: CodexProviderOptions, hooks: CodexClientHooks) => CodexMCPClient
+
+export type CodexClientLease = {
+  client: CodexMCPClient
+  release: () => void
+}
+
+type PoolEntry = {
+  key: string
+  client: CodexMCPClient
+  refs: number
+  /** Spawn settings of the process, reused when it has to be restarted. */
+  options: CodexProviderOptions
+  hooks: CodexClientHooks
+  idleTimer?: ReturnType<typeof setTimeout>
+  detach: () => void
+}
+
+const defaultClientFactory: CodexClientFactory = (options, hooks) => new CodexMCPClient(createTransport(options), hooks)
+
+export function createTransport(options: CodexProviderOptions): Transport {
+  const transport = connectTransport(options)
+  if (!options.recordDir) return transport
+  const recording = new RecordingTransport(transport, cassettePath(options.recordDir))
+  codexLog("cassette.recording", { file: recording.file })
+  return recording
+}
+
+function connectTransport(options: CodexProviderOptions): Transport {
+  const transport = options.transport
+  switch (transport?.type) {
+    case "replay":
+      return ReplayTransport.fromFile(transport.cassette, { speed: transport.speed })
+    case "http":
+      return new HttpTransport(transport.url, { headers: transport.headers })
+    case "websocket":
+      return new WebSocketTransport(transport.url, { headers: transport.headers, protocols: transport.protocols })
+    default:
+      return new StdioTransport(options.binary, options.args, { cwd: options.spawnCwd, env: options.env })
+  }
+}
+
+/**
+ * Keeps initialized `codex mcp-server` processes warm between model calls.
+ *
+ * Clients are keyed by everything that affects how the child is spawned
+ * (binary, args, env, spawnCwd), or by the endpoint of a remote transport. Concurrent calls share one process; their
+ * notifications are told apart by the `_meta.requestId` Codex attaches to
+ * every event. A process with no active lease is closed after its idle TTL.
+ * Workspace roots are not part of the key: a call in another directory
+ * announces its roots to the process with `notifications/roots/list_changed`.
+ *
+ * A process that crashes is restarted with backoff and re-initialized. When the
+ * processes of a key crash in a loop, the circuit opens and `acquire` fails fast
+ * with `CodexCrashLoopError` until it resets.
+ */
+export class CodexClientPool {
+  private readonly entries = new Map<string, PoolEntry>()
+  private readonly supervisors = new Map<string, CrashSupervisor>()
+  private readonly restartTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+  constructor(private readonly createClient: CodexClientFactory = defaultClientFactory) {}
+
+  acquire(options: CodexProviderOptions, hooks: CodexClientHooks = {}): CodexClientLease {
+    if (options.reuseProcess === false) {
+      const client = this.createClient(options, hooks)
+      return { client, release: once(() => void client.close()) }
+    }
+
+    const key = poolKey(options)
+    let entry = this.entries.get(key)
+    if (entry && entry.client.isClosed()) {
+      this.evict(entry)
+      entry = undefined
+    }
+    if (!entry) {
+      const supervisor = this.supervisors.get(key)
+      if (supervisor?.isOpen()) {
+        throw new CodexCrashLoopError(supervisor.status())
+      }
+      entry = this.spawnEntry(key, options, hooks)
+      codexLog("pool.spawned", { key, size: this.entries.size })
+    } else {
+      codexLog("pool.reused", { key, refs: entry.refs })
+    }
+
+    const leased = entry
+    if (leased.idleTimer) {
+      clearTimeout(leased.idleTimer)
+      leased.idleTimer = undefined
+    }
+    leased.refs += 1
+    leased.client.ref()
+
+    const idleTtl = options.processIdleTtl ?? DEFAULT_PROCESS_IDLE_TTL
+    return {
+      client: leased.client,
+      release: once(() => this.release(leased, idleTtl)),
+    }
+  }
+
+  get size() {
+    return this.entries.size
+  }
+
+  /** Restart count, last exit and circuit state of the processes for these spawn settings. */
+  status(options: CodexProviderOptions): SupervisorStatus | undefined {
+    return this.supervisors.get(poolKey(options))?.status()
+  }
+
+  closeAll() {
+    this.restartTimers.forEach(clearTimeout)
+    this.restartTimers.clear()
+    for (const entry of [...this.entries.values()]) {
+      this.evict(entry)
+      void entry.client.close()
+    }
+  }
+
+  private spawnEntry(key: string, options: CodexProviderOptions, hooks: CodexClientHooks): PoolEntry {
+    const restartTimer = this.restartTimers.get(key)
+    if (restartTimer) {
+      // Whoever gets here first, the backoff timer or a new call, performs the restart.
+      clearTimeout(restartTimer)
+      this.restartTimers.delete(key)
+      this.supervisors.get(key)?.recordRestart()
+    }
+    const client = this.createClient(options, hooks)
+    const entry: PoolEntry = { key, client, refs: 0, options, hooks, detach: () => {} }
+    const exitCleanup = client.onExit((code, signal) => {
+      this.handleCrash(entry, { code, signal, reason: `exited with code ${code ?? "null"}${signal ? ` signal ${signal}` : ""}` })
+    })
+    const errorCleanup = client.onError((error) => {
+      const data = CodexError.isInstance(error) ? (error.data as { code?: number; signal?: NodeJS.Signals }) : undefined
+      const exit = { code: data?.code ?? null, signal: data?.signal ?? null, reason: error.message.split("\n")[0] ?? "" }
+      // Not-logged-in, missing binary and the like would only crash again.
+      this.handleCrash(entry, exit, !CodexError.isInstance(error) || error.isRetryable)
+    })
+    entry.detach = () => {
+      exitCleanup()
+      errorCleanup()
+    }
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  private handleCrash(entry: PoolEntry, exit: Omit<ProcessExit, "at">, restartable = true) {
+    if (this.entries.get(entry.key) !== entry) return
+    this.evict(entry)
+    if (!restartable || entry.options.supervisor === false) return
+
+    let supervisor = this.supervisors.get(entry.key)
+    if (!supervisor) {
+      supervisor = new CrashSupervisor(entry.options.supervisor)
+      this.supervisors.set(entry.key, supervisor)
+    }
+    if (!supervisor.recordExit(exit)) {
+      codexLog("pool.crash_loop", { key: entry.key, status: supervisor.status() })
+      return
+    }
+
+    const delay = supervisor.restartDelay()
+    codexLog("pool.restart_scheduled", { key: entry.key, delay, exit })
+    const timer = setTimeout(() => {
+      const restarted = this.spawnEntry(entry.key, entry.options, entry.hooks)
+      codexLog("pool.restarted", { key: entry.key, status: supervisor.status() })
+      restarted.client
+        .initialize(entry.options.clientInfo, { timeout: entry.options.initializeTimeout })
+        .catch((error) => codexLog("pool.restart_initialize_failed", { key: entry.key, error: String(error) }))
+      this.scheduleIdle(restarted, entry.options.processIdleTtl ?? DEFAULT_PROCESS_IDLE_TTL)
+    }, delay)
+    timer.unref?.()
+    this.restartTimers.set(entry.key, timer)
+  }
+
+  private release(entry: PoolEntry, idleTtl: number) {
+    entry.refs = Math.max(0, entry.refs - 1)
+    if (entry.refs > 0) return
+    if (this.entries.get(entry.key) !== entry) return
+    this.scheduleIdle(entry, idleTtl)
+  }
+
+  private scheduleIdle(entry: PoolEntry, idleTtl: number) {
+    if (idleTtl <= 0) {
+      this.evict(entry)
+      void entry.client.close()
+      return
+    }
+
+    entry.client.unref()
+    entry.idleTimer = setTimeout(() => {
+      if (entry.refs > 0) return
+      codexLog("pool.idle_recycled", { key: entry.key, idleTtl })
+      this.evict(entry)
+      void entry.client.close()
+    }, idleTtl)
+    entry.idleTimer.unref?.()
+  }
+
+  private evict(entry: PoolEntry) {
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer)
+      entry.idleTimer = undefined
+    }
+    entry.detach()
+    if (this.entries.get(entry.key) === entry) {
+      this.entries.delete(entry.key)
+    }
+  }
+}
+
+function poolKey(options: CodexProviderOptions) {
+  const env = Object.entries(options.env ?? {}).sort(([a], [b]) => a.localeCompare(b))
+  const recordDir = options.recordDir ?? null
+  if (options.transport && options.transport.type !== "stdio") {
+    return JSON.stringify([options.transport, recordDir])
+  }
+  return JSON.stringify([
+    options.binary ?? "codex",
+    options.args ?? ["mcp-server"],
+    env,
+    options.spawnCwd ?? null,
+    recordDir,
+  ])
+}
+
+function once(fn: () => void) {
+  let called = false
+  return () => {
+    if (called) return
+    called = true
+    fn()
+  }
+}
+
+export const sharedClientPool = new CodexClientPool()
+
+process.once("exit", () => {
+  sharedClientPool.closeAll()
+})
@@ -1,11 +1,62 @@
-import { spawn, type ChildProcessWithoutNullStreams } from "child_process"
-import readline from "readline"
-import type { CodexClientHooks, CodexProviderOptions, JsonRpcNotification, JsonRpcRequest, JsonRpcResponse, JsonValue } from "./types"
-import { JSONRPC_VERSION, MCP_PROTOCOL_VERSION, toRequestKey } from "./types"
+import type {
+  CodexClientHooks,
+  CodexProgress,
+  CodexProviderOptions,
+  CodexRequestHandler,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcServerRequest,
+  JsonValue,
+  McpRoot,
+  McpServerInfo,
+  McpTool,
+} from "./types"
+import {
+  ELICITATION_PROTOCOL_VERSION,
+  JSONRPC_VERSION,
+  MCP_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  toRequestKey,
+} from "./types"
+import {
+  classifyCodexFailure,
+  CodexAbortedError,
+  CodexError,
+  CodexIdleTimeoutError,
+  CodexInitializeTimeoutError,
+  CodexProcessExitError,
+  CodexProtocolError,
+  CodexTotalTimeoutError,
+  finalErrorLines,
+} from "./errors"
+import { codexLog, codexServerLog, codexWarn, serverLogThreshold } from "./logger"
+import { prepareToolArguments } from "./toolSchema"
+import type { Transport, TransportCloseInfo } from "./transport"
+import { extractMetaRequestId } from "./utils"
+
+export const DEFAULT_INITIALIZE_TIMEOUT = 30 * 1000
+export const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000
+
+// After a request is cancelled for a timeout, how long the process gets to answer a ping before it is killed.
+const UNRESPONSIVE_KILL_MS = 5 * 1000
+
+export type CodexCallOptions = {
+  abortSignal?: AbortSignal
+  onNotification?: (notification: JsonRpcNotification) => void
+  onRequestId?: (id: number) => void
+  /** Receives the server's `notifications/progress` updates for the call. */
+  onProgress?: (progress: CodexProgress) => void
+  /** Cancel the call when no notification for it arrives for this long, in milliseconds. */
+  idleTimeout?: number
+  /** Cancel the call when it runs longer than this, in milliseconds. */
+  totalTimeout?: number
+  /** Returns true while the call is expected to be quiet, which holds off the idle timeout. */
+  holdIdleTimeout?: () => boolean
+}
 
 export class CodexMCPClient {
-  private readonly child: ChildProcessWithoutNullStreams
-  private readonly stdout: readline.Interface
   private readonly pending = new Map<
     string,
     {
@@ -17,63 +68,56 @@ export class CodexMCPClient {
   private readonly notificationHandlers = new Set<(notification: JsonRpcNotification) => void>()
   private readonly exitHandlers = new Set<(code: number | null, signal: NodeJS.Signals | null) => void>()
   private readonly errorHandlers = new Set<(error: Error) => void>()
+  private readonly requestHandlers = new Map<string, Set<CodexRequestHandler>>()
   private readonly hooks: CodexClientHooks
-  private readonly stderrChunks: string[] = []
   private closed = false
   private requestCounter = 0
   private initializing?: Promise<void>
   private initialized = false
+  private activeServerRequests = 0
+  /** Server requests being handled, so `notifications/cancelled` can abort them. */
+  private readonly serverRequestAborts = new Map<string, AbortController>()
+  private probing = false
+  /** Tools from `tools/list`; undefined when the server did not announce any, which skips validation. */
+  private tools?: Map<string, McpTool>
+  private readonly warnedKeys = new Set<string>()
+  private server?: McpServerInfo
+  private roots: McpRoot[] = []
 
   constructor(
-    command = "codex",
-    args: string[] = ["mcp-server"],
-    options: { cwd?: string; env?: Record<string, string> } = {},
+    private readonly transport: Transport,
     hooks: CodexClientHooks = {},
   ) {
     this.hooks = hooks
-    this.child = spawn(command, args, {
-      cwd: options.cwd,
-      env: {
-        ...process.env,
-        ...options.env,
-      },
-      stdio: ["pipe", "pipe", "pipe"],
+    transport.onMessage((message) => {
+      this.handleMessage(message)
     })
-
-    this.child.once("error", (error) => {
-      this.handleError(error instanceof Error ? error : new Error(String(error)))
+    transport.onClose((info) => {
+      this.handleClose(info)
     })
+    this.onRequest("roots/list", () => ({ roots: this.roots }))
+  }
 
-    this.child.on("exit", (code, signal) => {
-      this.handleExit(code, signal)
-    })
-
-    if (!this.child.stdin) {
-      throw new Error("codex mcp-server stdin not available")
-    }
-
-    if (this.child.stderr) {
-      this.child.stderr.on("data", (chunk) => {
-        this.stderrChunks.push(String(chunk))
-      })
+  /**
+   * Sets the directories answered to `roots/list`. A change after the
+   * handshake is announced with `notifications/roots/list_changed`, so Codex
+   * asks again.
+   */
+  setRoots(roots: McpRoot[]) {
+    if (JSON.stringify(roots) === JSON.stringify(this.roots)) return
+    this.roots = roots
+    if (this.initialized) {
+      this.sendNotification("notifications/roots/list_changed").catch(() => { })
     }
-
-    this.stdout = readline.createInterface({
-      input: this.child.stdout,
-      crlfDelay: Infinity,
-    })
-    this.stdout.on("line", (line) => {
-      this.handleLine(line)
-    })
   }
 
-  async initialize(clientInfo?: CodexProviderOptions["clientInfo"]) {
+  async initialize(clientInfo?: CodexProviderOptions["clientInfo"], options: { timeout?: number } = {}) {
     if (this.initialized) return
     if (this.initializing) {
       await this.initializing
       return
     }
-    this.initializing = this.initializeInternal(clientInfo)
+    this.initializing = this.initializeInternal(clientInfo, options.timeout ?? DEFAULT_INITIALIZE_TIMEOUT)
     try {
       await this.initializing
       this.initialized = true
@@ -82,44 +126,222 @@ export class CodexMCPClient {
     }
   }
 
-  async callCodex(
-    args: Record<string, JsonValue>,
-    options?: {
-      abortSignal?: AbortSignal
-      onNotification?: (notification: JsonRpcNotification) => void
-      onRequestId?: (id: number) => void
-    },
+  async callCodex(args: Record<string, JsonValue>, options?: CodexCallOptions) {
+    return this.callTool("codex", args, options)
+  }
+
+  /** Continues an existing Codex conversation with a new user turn. */
+  async callCodexReply(args: { conversationId: string; prompt: string }, options?: CodexCallOptions) {
+    return this.callTool("codex-reply", args, options)
+  }
+
+  /** Protocol version, capabilities and identity the server reported in `initialize`. */
+  serverInfo(): McpServerInfo | undefined {
+    return this.server
+  }
+
+  /**
+   * Whether the negotiated session includes a feature: `elicitation` depends on
+   * the protocol version, everything else on the server's capabilities.
+   */
+  supports(feature: "elicitation" | "logging" | "tools" | "prompts" | "resources") {
+    if (!this.server) return false
+    if (feature === "elicitation") return this.server.protocolVersion >= ELICITATION_PROTOCOL_VERSION
+    return this.server.capabilities[feature] !== undefined
+  }
+
+  /** The tools the server listed after `initialize`, for diagnostics. */
+  availableTools(): McpTool[] | undefined {
+    return this.tools ? [...this.tools.values()] : undefined
+  }
+
+  /**
+   * Whether the server's schema for `tool` declares `argument`. Without a
+   * discovered schema nothing is known to be missing, so this returns true.
+   */
+  acceptsArgument(tool: string, argument: string) {
+    const schema = this.tools?.get(tool)?.inputSchema
+    if (!schema?.properties) return true
+    const additional = schema.additionalProperties
+    return argument in schema.properties || additional === true || typeof additional === "object"
+  }
+
+  private async callTool(
+    name: string,
+    rawArgs: Record<string, JsonValue>,
+    options?: CodexCallOptions,
   ): Promise<{ requestId: number; result: JsonValue }> {
     await this.initialize()
+    const args = this.prepareArguments(name, rawArgs)
 
-    const handler =
-      options?.onNotification &&
-      this.onNotification((notification) => {
-        if (notification.method.startsWith("codex/event")) {
-          options.onNotification?.(notification)
-        }
-      })
+    const progressToken = `progress-${this.requestCounter}`
+    const handler = this.onNotification((notification) => {
+      if (notification.method.startsWith("codex/event")) {
+        options?.onNotification?.(notification)
+        return
+      }
+      if (notification.method === "notifications/progress" && options?.onProgress) {
+        const params = (notification.params ?? {}) as Record<string, JsonValue>
+        if (params["progressToken"] !== progressToken || typeof params["progress"] !== "number") return
+        options.onProgress({
+          progress: params["progress"],
+          ...(typeof params["total"] === "number" ? { total: params["total"] } : {}),
+          ...(typeof params["message"] === "string" ? { message: params["message"] } : {}),
+        })
+      }
+    })
 
+    let stopDeadlines: (() => void) | undefined
     try {
-      const { id, promise } = this.sendRequest("tools/call", { name: "codex", arguments: args }, options?.abortSignal)
+      const { id, promise } = this.sendRequest(
+        "tools/call",
+        { name, arguments: args, ...(options?.onProgress ? { _meta: { progressToken } } : {}) },
+        options?.abortSignal,
+      )
       options?.onRequestId?.(id)
+      stopDeadlines = this.watchDeadlines(id, options)
       const result = await promise
       return { requestId: id, result }
     } finally {
-      handler?.()
+      stopDeadlines?.()
+      handler()
+    }
+  }
+
+  /**
+   * Checks `args` against the input schema the server listed for `name`.
+   * Unknown keys are dropped with a warning; anything else the schema rejects
+   * fails the call before it is sent.
+   */
+  private prepareArguments(name: string, args: Record<string, JsonValue>) {
+    if (!this.tools) return args
+    const tool = this.tools.get(name)
+    if (!tool) {
+      throw new CodexProtocolError({
+        message: `Codex MCP server does not offer the "${name}" tool (available: ${[...this.tools.keys()].join(", ") || "none"})`,
+        data: { tool: name },
+      })
+    }
+    const prepared = prepareToolArguments(tool.inputSchema, args)
+    for (const key of prepared.dropped) {
+      if (this.warnedKeys.has(`${name}.${key}`)) continue
+      this.warnedKeys.add(`${name}.${key}`)
+      codexWarn(`Codex's "${name}" tool no longer accepts "${key}"; the argument is not sent.`)
+    }
+    if (prepared.errors.length) {
+      throw new CodexProtocolError({
+        message: `Invalid arguments for the Codex "${name}" tool:\n${prepared.errors.join("\n")}`,
+        data: { tool: name, errors: prepared.errors },
+      })
+    }
+    return prepared.args
+  }
+
+  /** Arms the idle and total deadlines of a `tools/call` request. */
+  private watchDeadlines(id: number, options?: CodexCallOptions) {
+    const timers: ReturnType<typeof setTimeout>[] = []
+    const totalTimeout = options?.totalTimeout
+    if (totalTimeout && totalTimeout > 0) {
+      timers.push(setTimeout(() => this.expire(id, new CodexTotalTimeoutError(totalTimeout)), totalTimeout))
     }
+
+    const idleTimeout = options?.idleTimeout
+    if (!idleTimeout || idleTimeout <= 0) {
+      return () => timers.forEach(clearTimeout)
+    }
+    let idleTimer: ReturnType<typeof setTimeout> | undefined
+    const armIdle = () => {
+      if (idleTimer) clearTimeout(idleTimer)
+      idleTimer = setTimeout(() => {
+        // An approval waiting on the user is not a wedged process.
+        if (this.activeServerRequests > 0 || options?.holdIdleTimeout?.()) {
+          armIdle()
+          return
+        }
+        this.expire(id, new CodexIdleTimeoutError(idleTimeout))
+      }, idleTimeout)
+    }
+    armIdle()
+    const unsubscribe = this.onNotification((notification) => {
+      const requestId = extractMetaRequestId(notification.params)
+      if (requestId === undefined || requestId === id) armIdle()
+    })
+    return () => {
+      unsubscribe()
+      if (idleTimer) clearTimeout(idleTimer)
+      timers.forEach(clearTimeout)
+    }
+  }
+
+  /**
+   * Gives up on a request that ran past its deadline: it is rejected with
+   * `error`, cancelled on the server and the process is checked for signs of life.
+   * MCP forbids cancelling `initialize`, so a handshake that runs late tears the
+   * connection down instead.
+   */
+  private expire(id: number, error: Error, method?: string) {
+    const key = toRequestKey(id)
+    const pending = this.pending.get(key)
+    if (!pending) return
+    this.pending.delete(key)
+    pending.cleanup()
+    pending.reject(error)
+    codexLog("request.timeout", { id, method, error: error.message })
+    if (method === "initialize") {
+      this.terminate(error)
+      return
+    }
+    this.sendNotification("notifications/cancelled", { requestId: id, reason: error.message }).catch(() => { })
+    this.probe(error)
+  }
+
+  /** Kills the process when it does not answer a ping, so a wedged server is not reused. */
+  private probe(cause: Error) {
+    if (this.closed || this.probing) return
+    this.probing = true
+    const { promise } = this.sendRequest("ping")
+    const timer = setTimeout(() => {
+      codexLog("process.unresponsive", { cause: cause.message })
+      this.terminate(
+        new CodexError({
+          kind: "process-exit",
+          message: `codex mcp-server stopped responding (${cause.message})`,
+          cause,
+          isRetryable: true,
+        }),
+      )
+    }, UNRESPONSIVE_KILL_MS)
+    promise
+      .catch(() => { })
+      .finally(() => {
+        clearTimeout(timer)
+        this.probing = false
+      })
+  }
+
+  private terminate(error: Error) {
+    this.handleError(error)
+    this.transport.close({ force: true })
   }
 
   async close() {
     if (this.closed) return
     this.closed = true
-    this.stdout.close()
-    try {
-      this.child.stdin?.end()
-    } catch {
-      // ignore
-    }
-    this.child.kill("SIGTERM")
+    this.transport.close()
+  }
+
+  isClosed() {
+    return this.closed
+  }
+
+  /** Lets an idle pooled process keep the host alive again. */
+  ref() {
+    this.transport.ref?.()
+  }
+
+  /** Stops an idle pooled process from holding the host's event loop open. */
+  unref() {
+    this.transport.unref?.()
   }
 
   onNotification(handler: (notification: JsonRpcNotification) => void) {
@@ -127,6 +349,20 @@ export class CodexMCPClient {
     return () => this.notificationHandlers.delete(handler)
   }
 
+  /**
+   * Handles server-initiated requests for `method`. Handlers run in registration
+   * order; returning undefined passes the request on to the next one.
+   */
+  onRequest(method: string, handler: CodexRequestHandler) {
+    let handlers = this.requestHandlers.get(method)
+    if (!handlers) {
+      handlers = new Set()
+      this.requestHandlers.set(method, handlers)
+    }
+    handlers.add(handler)
+    return () => handlers.delete(handler)
+  }
+
   onExit(handler: (code: number | null, signal: NodeJS.Signals | null) => void) {
     this.exitHandlers.add(handler)
     return () => this.exitHandlers.delete(handler)
@@ -137,11 +373,13 @@ export class CodexMCPClient {
     return () => this.errorHandlers.delete(handler)
   }
 
-  private async initializeInternal(clientInfo?: CodexProviderOptions["clientInfo"]) {
+  private async initializeInternal(clientInfo: CodexProviderOptions["clientInfo"], timeout: number) {
     const params: JsonValue = {
       protocolVersion: MCP_PROTOCOL_VERSION,
       capabilities: {
         tools: {},
+        elicitation: {},
+        roots: { listChanged: true },
       },
       clientInfo: {
         name: clientInfo?.name ?? "opencode",
@@ -149,29 +387,87 @@ export class CodexMCPClient {
       },
     }
 
-    const { promise } = this.sendRequest("initialize", params)
-    const result = await promise
+    const result = await this.requestWithTimeout("initialize", params, timeout)
     if (result && typeof result === "object" && "error" in result) {
-      throw new Error("Codex MCP server returned an error during initialization")
+      throw new CodexProtocolError({ message: "Codex MCP server returned an error during initialization", data: result })
     }
+    this.server = this.negotiate(result)
+    this.transport.setProtocolVersion?.(this.server.protocolVersion)
+    codexLog("protocol.negotiated", { ...this.server })
     await this.sendNotification("notifications/initialized", undefined)
+
+    if (this.supports("logging")) {
+      this.sendRequest("logging/setLevel", { level: serverLogThreshold() }).promise.catch((error) =>
+        codexLog("logging.set_level_failed", { error: String(error) }),
+      )
+    }
+    if (this.supports("tools")) {
+      await this.discoverTools(timeout)
+    }
   }
 
-  private handleLine(line: string) {
-    if (!line.trim()) return
-    let message: JsonValue
+  /**
+   * Accepts the server's answer to `initialize`. The server either echoes the
+   * version the client offered or proposes another one; a proposal the client
+   * does not speak ends the connection.
+   */
+  private negotiate(result: JsonValue): McpServerInfo {
+    const answer = (result && typeof result === "object" && !Array.isArray(result) ? result : {}) as Partial<McpServerInfo>
+    // Servers that leave the version out are taken to speak the one offered.
+    const protocolVersion = typeof answer.protocolVersion === "string" ? answer.protocolVersion : MCP_PROTOCOL_VERSION
+    if (!(SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(protocolVersion)) {
+      const error = new CodexProtocolError({
+        message: `Codex MCP server speaks protocol version ${protocolVersion}; this provider supports ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}. Update Codex or opencode-codex-provider so they share a version.`,
+        data: { serverVersion: protocolVersion, supportedVersions: [...SUPPORTED_PROTOCOL_VERSIONS] },
+      })
+      this.terminate(error)
+      throw error
+    }
+    return {
+      protocolVersion,
+      capabilities: answer.capabilities ?? {},
+      ...(answer.serverInfo ? { serverInfo: answer.serverInfo } : {}),
+      ...(answer.instructions ? { instructions: answer.instructions } : {}),
+    }
+  }
+
+  /** Fetches every page of `tools/list`; a server that refuses it is used without validation. */
+  private async discoverTools(timeout: number) {
+    const tools = new Map<string, McpTool>()
+    let cursor: string | undefined
     try {
-      message = JSON.parse(line)
+      do {
+        const page = (await this.requestWithTimeout("tools/list", cursor ? { cursor } : {}, timeout)) as {
+          tools?: McpTool[]
+          nextCursor?: string
+        } | null
+        for (const tool of page?.tools ?? []) tools.set(tool.name, tool)
+        cursor = page?.nextCursor
+      } while (cursor)
     } catch (error) {
-      this.handleError(
-        error instanceof Error ? error : new Error(`Failed to parse MCP message: ${String(error)}`),
-      )
+      // Timeouts and a dead process fail the handshake; an error answer only costs validation.
+      if (this.closed || error instanceof CodexInitializeTimeoutError) throw error
+      codexLog("tools.list_failed", { error: String(error) })
       return
     }
+    this.tools = tools
+    codexLog("tools.discovered", { tools: [...tools.keys()] })
+  }
+
+  private async requestWithTimeout(method: string, params: JsonValue, timeout: number) {
+    const { id, promise } = this.sendRequest(method, params)
+    const timer = timeout > 0 ? setTimeout(() => this.expire(id, new CodexInitializeTimeoutError(timeout), method), timeout) : undefined
+    return promise.finally(() => clearTimeout(timer))
+  }
 
+  private handleMessage(message: JsonValue) {
     this.hooks.onReceive?.(message)
 
     if (!message || typeof message !== "object") return
+    if ("id" in message && "method" in message) {
+      void this.handleServerRequest(message as JsonRpcServerRequest)
+      return
+    }
     if ("id" in message) {
       const response = message as JsonRpcResponse
       const key = toRequestKey(response.id)
@@ -180,12 +476,12 @@ export class CodexMCPClient {
       pending.cleanup()
       this.pending.delete(key)
       if (response.error) {
+        const message = response.error.data
+          ? `${response.error.message}: ${JSON.stringify(response.error.data)}`
+          : response.error.message
         pending.reject(
-          new Error(
-            response.error.data
-              ? `${response.error.message}: ${JSON.stringify(response.error.data)}`
-              : response.error.message,
-          ),
+          classifyCodexFailure(message) ??
+            new CodexProtocolError({ message, data: { code: response.error.code, data: response.error.data } }),
         )
       } else {
         pending.resolve(response.result ?? null)
@@ -195,11 +491,73 @@ export class CodexMCPClient {
 
     if ("method" in message) {
       const notification = message as JsonRpcNotification
+      if (notification.method === "notifications/message") {
+        const params = (notification.params ?? {}) as { level?: string; logger?: string; data?: unknown }
+        codexServerLog(params.level ?? "info", params.data, params.logger)
+      } else if (notification.method === "notifications/cancelled") {
+        this.handleCancelled(notification.params)
+      }
       this.notificationHandlers.forEach((handler) => handler(notification))
       return
     }
   }
 
+  /**
+   * The server gave up on a request: one of ours ends with `CodexAbortedError`
+   * marked as server-side, one of its own stops being handled.
+   */
+  private handleCancelled(params: JsonValue | undefined) {
+    const { requestId, reason } = (params ?? {}) as { requestId?: number | string; reason?: string }
+    if (requestId === undefined) return
+    const key = toRequestKey(requestId)
+    codexLog("request.cancelled_by_server", { requestId, reason })
+    this.serverRequestAborts.get(key)?.abort(reason)
+    const pending = this.pending.get(key)
+    if (!pending) return
+    this.pending.delete(key)
+    pending.cleanup()
+    pending.reject(
+      new CodexAbortedError({
+        message: `Codex cancelled the request${reason ? `: ${reason}` : ""}`,
+        data: { cancelledBy: "server", reason },
+      }),
+    )
+  }
+
+  private async handleServerRequest(request: JsonRpcServerRequest) {
+    const handlers = [...(this.requestHandlers.get(request.method) ?? [])]
+    const key = toRequestKey(request.id)
+    const abort = new AbortController()
+    this.serverRequestAborts.set(key, abort)
+    this.activeServerRequests += 1
+    try {
+      for (const handler of handlers) {
+        const result = await handler(request.params, request, abort.signal)
+        // A cancelled request gets no response.
+        if (abort.signal.aborted) return
+        if (result !== undefined) {
+          this.writeMessage({ jsonrpc: JSONRPC_VERSION, id: request.id, result })
+          return
+        }
+      }
+      this.writeMessage({
+        jsonrpc: JSONRPC_VERSION,
+        id: request.id,
+        error: { code: -32601, message: `Method not found: ${request.method}` },
+      })
+    } catch (error) {
+      if (abort.signal.aborted) return
+      this.writeMessage({
+        jsonrpc: JSONRPC_VERSION,
+        id: request.id,
+        error: { code: -32603, message: error instanceof Error ? error.message : String(error) },
+      })
+    } finally {
+      this.serverRequestAborts.delete(key)
+      this.activeServerRequests -= 1
+    }
+  }
+
   private handleError(error: Error) {
     if (this.closed) return
     this.errorHandlers.forEach((handler) => handler(error))
@@ -211,13 +569,15 @@ export class CodexMCPClient {
     this.closed = true
   }
 
-  private handleExit(code: number | null, signal: NodeJS.Signals | null) {
+  private handleClose({ code, signal, error, diagnostics }: TransportCloseInfo) {
     if (this.closed) return
-    const stderr = this.stderrChunks.join("")
-    const error = new Error(
-      `codex mcp-server exited with code ${code ?? "null"}${signal ? ` signal ${signal}` : ""}${stderr ? `\n${stderr}` : ""}`,
-    )
-    this.handleError(error)
+    if (error) {
+      this.handleError(error)
+      return
+    }
+    const stderr = diagnostics ?? ""
+    const failure = classifyCodexFailure(finalErrorLines(stderr))
+    this.handleError(failure ?? new CodexProcessExitError({ code, signal, stderr }))
     this.exitHandlers.forEach((handler) => handler(code, signal))
   }
 
@@ -231,7 +591,7 @@ export class CodexMCPClient {
         this.sendNotification("notifications/cancelled", { requestId: typeof id === "number" ? id : String(id) }).catch(
           () => { },
         )
-        reject(new DOMException("Aborted", "AbortError"))
+        reject(new CodexAbortedError({ reason: abortSignal?.reason }))
       }
 
       const cleanup = () => {
@@ -279,9 +639,9 @@ export class CodexMCPClient {
     this.writeMessage(notification)
   }
 
-  private writeMessage(message: JsonRpcRequest | JsonRpcNotification) {
+  private writeMessage(message: JsonRpcMessage) {
     if (this.closed) return
     this.hooks.onSend?.(message)
-    this.child.stdin.write(JSON.stringify(message) + "\n")
+    this.transport.send(message)
   }
 }
@@ -1,6 +1,7 @@
 import type {
   LanguageModelV2,
   LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
   LanguageModelV2Content,
   LanguageModelV2FinishReason,
   LanguageModelV2StreamPart,
@@ -8,26 +9,171 @@ import type {
   SharedV2Headers,
   ProviderV2,
 } from "@ai-sdk/provider"
-import { CodexMCPClient } from "./codexClient"
-import { codexLog } from "./logger"
+import { resolveCodexBinary } from "./binary"
+import {
+  APPROVAL_REQUEST_METHOD,
+  APPROVAL_TOOL_NAME,
+  decideApproval,
+  DEFAULT_APPROVAL_DECISION,
+  parseApprovalRequest,
+} from "./approvals"
+import { sharedClientPool } from "./clientPool"
+import { type CodexMCPClient, DEFAULT_IDLE_TIMEOUT, DEFAULT_INITIALIZE_TIMEOUT } from "./codexClient"
+import {
+  classifyCodexFailure,
+  CodexAbortedError,
+  CodexError,
+  CodexInvalidOptionsError,
+  CodexProcessExitError,
+  CodexProtocolError,
+} from "./errors"
+import { sharedConversationStore } from "./conversationStore"
+import { codexLog, codexWarn } from "./logger"
+import { validateProviderOptions } from "./optionsSchema"
+import { resolveRetryPolicy, RETRY_CONTINUATION_PROMPT, retryDelay, shouldRetry, waitForRetry } from "./retry"
 import { StreamState } from "./stream-state"
-import type { CodexProviderOptions, JsonValue } from "./types"
+import {
+  DEFAULT_TOOL_RESULT_TIMEOUT,
+  findSuspendedTurn,
+  sharedToolBridge,
+  TOOL_BRIDGE_SERVER_NAME,
+  ToolCallRelay,
+  toBridgedTools,
+  toolChoiceWarning,
+  type BridgeSession,
+} from "./toolBridge"
+import { ExecCommandTracker, PatchApplyTracker } from "./toolEvents"
+import {
+  elidedHistoryNote,
+  estimateTokens,
+  fitTranscript,
+  HISTORY_SUMMARY_SHARE,
+  historySummaryPrompt,
+  renderTranscript,
+  resolveHistoryBudget,
+} from "./transcript"
+import type {
+  CodexProgress,
+  CodexProviderOptions,
+  CodexTranscriptRenderer,
+  CodexTranscriptTurn,
+  JsonRpcNotification,
+  JsonValue,
+} from "./types"
 import {
   buildConversationPayload,
   decodeExecChunk,
   DEFAULT_REASONING,
+  DEFAULT_SYSTEM_PROMPT_MODE,
+  extractConversationId,
+  extractMetaRequestId,
   extractTextFromResult,
   mapApprovalPolicy,
   mapSandboxMode,
+  parseTokenUsage,
+  resolveReasoningMode,
+  mergeProviderOptions,
   sharedPrefixLength,
+  workspaceRoots,
 } from "./utils"
 
+function isServerCancellation(error: CodexError) {
+  return (error.data as { cancelledBy?: string } | undefined)?.cancelledBy === "server"
+}
+
+const warnedNoElicitation = new WeakSet<CodexMCPClient>()
+
+// Approvals travel as `elicitation/create`, which older protocol versions lack.
+function warnNoElicitation(client: CodexMCPClient) {
+  if (warnedNoElicitation.has(client)) return
+  warnedNoElicitation.add(client)
+  codexWarn(
+    `Codex negotiated MCP ${client.serverInfo()?.protocolVersion}, which cannot carry approval requests; commands that need approval will fail. Update Codex or set approvalPolicy to "never".`,
+  )
+}
+
+const warnedDefaultApproval = new WeakSet<CodexMCPClient>()
+
+// Codex asks for approvals under the default policy, so denials nobody configured need explaining.
+function warnDefaultApproval(client: CodexMCPClient) {
+  if (warnedDefaultApproval.has(client)) return
+  warnedDefaultApproval.add(client)
+  codexWarn(
+    `Denied a Codex approval request because "approvalDecision" is not set, so it defaults to "${DEFAULT_APPROVAL_DECISION}". Set "approvalDecision" in the codex provider options, or set "approvalPolicy" to "never".`,
+  )
+}
+
+const SYSTEM_PROMPT_ARGUMENTS = { developer: "developer-instructions", replace: "base-instructions" } as const
+
+/**
+ * Puts the system messages into the `codex` tool argument `mode` asks for.
+ * Servers whose schema lacks that argument get them inline, ahead of the prompt.
+ */
+function routeSystemPrompt(
+  toolArgs: Record<string, JsonValue>,
+  instructions: string,
+  client: CodexMCPClient,
+  mode: CodexProviderOptions["systemPromptMode"] = DEFAULT_SYSTEM_PROMPT_MODE,
+) {
+  const argument = mode === "inline" ? undefined : SYSTEM_PROMPT_ARGUMENTS[mode]
+  if (argument && client.acceptsArgument("codex", argument)) {
+    toolArgs[argument] = instructions
+    return
+  }
+  if (argument) codexLog("system_prompt.inline", { mode, argument })
+  toolArgs["prompt"] = `${instructions}\n\n${toolArgs["prompt"]}`
+}
+
+/**
+ * Asks Codex, in a conversation of its own, to summarise the turns left out of
+ * the history. The summary is a nicety, so failing to get one is only logged.
+ */
+async function summarizeHistory(
+  client: CodexMCPClient,
+  turns: CodexTranscriptTurn[],
+  render: CodexTranscriptRenderer,
+  options: {
+    model: string
+    cwd: string
+    maxTokens: number
+    contextTokens?: number
+    idleTimeout: number
+    abortSignal: AbortSignal
+  },
+) {
+  // The turns left out may not fit either; the oldest of them go unsummarised.
+  const transcript = fitTranscript(turns, render, options.contextTokens).text
+  try {
+    const { result } = await client.callCodex(
+      {
+        prompt: historySummaryPrompt(transcript, options.maxTokens),
+        model: options.model,
+        cwd: options.cwd,
+        "approval-policy": "never",
+        sandbox: "read-only",
+        "include-plan-tool": false,
+        config: { model_reasoning_effort: "minimal" },
+      },
+      { abortSignal: options.abortSignal, idleTimeout: options.idleTimeout },
+    )
+    return extractTextFromResult(result).trim() || undefined
+  } catch (error) {
+    if (options.abortSignal.aborted) throw error
+    codexLog("history.summary_failed", { error: error instanceof Error ? error.message : String(error) })
+    return undefined
+  }
+}
+
 class CodexLanguageModel implements LanguageModelV2 {
   readonly specificationVersion = "v2" as const
   readonly provider = "codex"
   readonly supportedUrls: Record<string, RegExp[]> = { "*/*": [] }
 
-  constructor(public readonly modelId: string) {}
+  constructor(
+    public readonly modelId: string,
+    /** Provider settings layered with the model's options; call options override them. */
+    private readonly defaults: CodexProviderOptions = {},
+  ) {}
 
   get modelIdForLogging() {
     return this.modelId
@@ -45,15 +191,28 @@ class CodexLanguageModel implements LanguageModelV2 {
     const { stream } = await this.doStream(options)
     const reader = stream.getReader()
     let text = ""
+    let reasoning = ""
+    const toolParts: LanguageModelV2Content[] = []
     let finishReason: LanguageModelV2FinishReason = "stop"
     let usage: LanguageModelV2Usage | undefined
+    let warnings: LanguageModelV2CallWarning[] = []
 
     while (true) {
       const { value, done } = await reader.read()
       if (done) break
       switch (value.type) {
+        case "stream-start":
+          warnings = value.warnings
+          break
         case "text-delta":
-          text += value.delta
+          if (value.id === "codex-text") text += value.delta
+          break
+        case "reasoning-delta":
+          reasoning += value.delta
+          break
+        case "tool-call":
+        case "tool-result":
+          toolParts.push(value)
           break
         case "finish":
           finishReason = value.finishReason
@@ -64,14 +223,14 @@ class CodexLanguageModel implements LanguageModelV2 {
       }
     }
 
-    const content: LanguageModelV2Content[] = text
-      ? [
-          {
-            type: "text",
-            text,
-          },
-        ]
-      : []
+    const content: LanguageModelV2Content[] = []
+    if (reasoning) {
+      content.push({ type: "reasoning", text: reasoning })
+    }
+    content.push(...toolParts)
+    if (text) {
+      content.push({ type: "text", text })
+    }
 
     return {
       content,
@@ -82,7 +241,7 @@ class CodexLanguageModel implements LanguageModelV2 {
           outputTokens: undefined,
           totalTokens: undefined,
         },
-      warnings: [],
+      warnings,
     }
   }
 
@@ -93,20 +252,48 @@ class CodexLanguageModel implements LanguageModelV2 {
     request?: { body?: unknown }
     response?: { headers?: SharedV2Headers }
   }> {
-    const providerOptions = this.extractProviderOptions(options)
-    const { baseInstructions, userText, assistantText } = buildConversationPayload(options.prompt)
-    let prompt = userText || "Please respond to the request."
-    if (baseInstructions) {
-      prompt = `${baseInstructions}\n\n${prompt}`
+    const { options: providerOptions, issues } = validateProviderOptions(this.extractProviderOptions(options))
+    if (issues.length) {
+      codexLog("options.invalid", { issues })
+      if (providerOptions.strictOptions) throw new CodexInvalidOptionsError(issues)
     }
-    if (assistantText) {
-      prompt = `${prompt}\n\nAssistant context:\n${assistantText}`
+    const warnings: LanguageModelV2CallWarning[] = issues.map((issue) => ({ type: "other", message: issue.message }))
+    const suspended = findSuspendedTurn(options.prompt)
+    if (suspended) {
+      // The prompt carries results for tool calls a running Codex turn is waiting on.
+      return {
+        stream: new ReadableStream<LanguageModelV2StreamPart>({
+          start: (controller) => {
+            controller.enqueue({ type: "stream-start", warnings })
+            suspended.turn.resume(controller, suspended.results, options.abortSignal)
+          },
+          cancel: () => suspended.turn.cancel(),
+        }),
+      }
     }
+
+    const { baseInstructions, turns } = buildConversationPayload(options.prompt)
+    const render = providerOptions.transcriptRenderer ?? renderTranscript
+    const historyBudget = resolveHistoryBudget(providerOptions)
+    const historyStrategy = (providerOptions.historyLimit || undefined)?.strategy ?? "drop"
+    // System messages reach Codex with the history in every mode, so they count against its budget.
+    const historyTokens =
+      historyBudget === undefined ? undefined : Math.max(1, historyBudget - estimateTokens(baseInstructions ?? ""))
+    const history = fitTranscript(turns, render, historyTokens, historyStrategy === "summarize")
+    const withHistoryNote = (summary?: string) =>
+      history.dropped.length ? `${elidedHistoryNote(history.dropped.length, summary)}\n\n${history.text}` : history.text
+    const prompt = withHistoryNote().trim() || "Please respond to the request."
     const reasoningEffort = providerOptions.reasoningEffort ?? DEFAULT_REASONING
+    const reasoningMode = resolveReasoningMode(providerOptions)
     const cwd = providerOptions.cwd ?? process.cwd()
     const approvalPolicy = mapApprovalPolicy(providerOptions.approvalPolicy)
     const sandbox = mapSandboxMode(providerOptions.sandboxMode)
 
+    const codexConfig: Record<string, JsonValue> = {
+      model_reasoning_effort: reasoningEffort,
+      ...(reasoningMode === "raw" ? { show_raw_agent_reasoning: true } : {}),
+      ...(reasoningMode === "none" ? { model_reasoning_summary: "none" } : {}),
+    }
     const toolArgs: Record<string, JsonValue> = {
       prompt,
       model: providerOptions.model ?? this.modelId,
@@ -114,54 +301,130 @@ class CodexLanguageModel implements LanguageModelV2 {
       "approval-policy": approvalPolicy,
       sandbox,
       "include-plan-tool": false,
-      config: {
-        model_reasoning_effort: reasoningEffort,
-      },
+      config: codexConfig,
+    }
+    const bridgedTools = providerOptions.bridgeTools === false ? [] : toBridgedTools(options.tools, options.toolChoice)
+    const toolChoiceIssue = bridgedTools.length ? toolChoiceWarning(options.toolChoice) : undefined
+    if (toolChoiceIssue) warnings.push(toolChoiceIssue)
+    const toolResultTimeout = providerOptions.toolResultTimeout ?? DEFAULT_TOOL_RESULT_TIMEOUT
+    const retryPolicy = resolveRetryPolicy(providerOptions.retry)
+
+    // Pooled processes are keyed by the resolved path, so discovery runs before acquiring one.
+    const binary =
+      providerOptions.versionCheck === false || (providerOptions.transport && providerOptions.transport.type !== "stdio")
+        ? undefined
+        : await resolveCodexBinary(providerOptions)
+    const spawnOptions = binary ? { ...providerOptions, binary: binary.command } : providerOptions
+    const { client, release } = sharedClientPool.acquire(spawnOptions, {
+      onSend: (payload) => codexLog("rpc.send", { payload }),
+      onReceive: (payload) => codexLog("rpc.receive", { payload }),
+    })
+    const callAbort = new AbortController()
+    const reuseConversation = providerOptions.reuseConversation ?? true
+    const conversationScope = {
+      session: providerOptions.sessionId,
+      settings: { model: toolArgs["model"] as string, sandbox, approvalPolicy, cwd },
+    }
+    const conversation = reuseConversation
+      ? sharedConversationStore.find(options.prompt, client, conversationScope)
+      : undefined
+    const replyText = conversation ? buildConversationPayload(conversation.newMessages).userText : ""
+    // A live conversation keeps its own context; only a new one gets the flattened history.
+    const elided = replyText ? [] : history.dropped
+    const elidedTokens = elided.length ? estimateTokens(render(elided)) : 0
+    if (elided.length) {
+      warnings.push({
+        type: "other",
+        message: `Left out the ${elided.length} oldest of ${turns.length} messages (about ${elidedTokens} tokens) to keep the history within about ${historyTokens} tokens${
+          historyStrategy === "summarize" ? "; Codex summarises them instead" : ""
+        }.`,
+      })
+    }
+    if (!replyText && historyTokens !== undefined && estimateTokens(history.text) > historyTokens) {
+      warnings.push({
+        type: "other",
+        message: `The latest message alone is about ${estimateTokens(history.text)} tokens, over the history budget of about ${historyTokens} tokens.`,
+      })
     }
-
-    const client = new CodexMCPClient(
-      providerOptions.binary,
-      providerOptions.args,
-      {
-        cwd: providerOptions.spawnCwd,
-        env: providerOptions.env,
-      },
-      {
-        onSend: (payload) => codexLog("rpc.send", { payload }),
-        onReceive: (payload) => codexLog("rpc.receive", { payload }),
-      },
-    )
 
     const stream = new ReadableStream<LanguageModelV2StreamPart>({
       start: async (controller) => {
-        const streamState = new StreamState(controller, client, providerOptions.streamReasoning ?? true)
+        controller.enqueue({ type: "stream-start", warnings })
+        const streamState = new StreamState(controller, release, reasoningMode !== "none")
+        if (binary?.version) streamState.setMetadata("codexVersion", binary.version)
+        const processStatus = sharedClientPool.status(spawnOptions)
+        if (processStatus?.lastExit) {
+          // The process serving this call replaced one that crashed.
+          streamState.setMetadata("process", processStatus)
+        }
         let finishedViaNotification = false
         let abortCleanup = () => {}
         let callRequestId: number | undefined
         let lastAgentMessage = ""
         let lastReasoningMessage = ""
+        const execTracker = new ExecCommandTracker(streamState)
+        const patchTracker = new PatchApplyTracker(streamState)
+        let conversationId = replyText ? conversation?.conversationId : undefined
         const includeCommandOutput = providerOptions.streamCommandOutput ?? false
-        const includeReasoning = providerOptions.streamReasoning ?? true
+        // Summary and raw reasoning arrive as parallel event families; stream only the chosen one.
+        const reasoningEvent = reasoningMode === "raw" ? "agent_reasoning_raw_content" : "agent_reasoning"
+        const includeReasoning = reasoningMode !== "none"
+        let attemptAbort = new AbortController()
+        let attemptError: Error | undefined
+        const retries: JsonValue[] = []
+        // Fails the running attempt; the retry loop below decides whether to try again.
+        const failAttempt = (error: Error) => {
+          attemptError ??= error
+          attemptAbort.abort()
+        }
+        const recordRetry = (attempt: number, delayMs: number, error: unknown) => {
+          const retry = {
+            attempt,
+            delayMs,
+            error: {
+              name: error instanceof Error ? error.name : "Error",
+              kind: CodexError.isInstance(error) ? error.kind : "codex",
+              message: error instanceof Error ? error.message : String(error),
+            },
+          }
+          retries.push(retry)
+          codexLog("retry.scheduled", retry)
+          streamState.setMetadata("retries", retries)
+          if (options.includeRawChunks) streamState.pushRaw({ type: "codex.retry", ...retry })
+        }
+        let bridgeSession: BridgeSession | undefined =
+          conversationId && conversation?.bridgeToken ? sharedToolBridge.getSession(conversation.bridgeToken) : undefined
+        const relay: ToolCallRelay = new ToolCallRelay({
+          turn: {
+            resume: (nextController, results, abortSignal) => {
+              streamState.resume(nextController)
+              watchAbort(abortSignal)
+              relay.resume(results)
+            },
+            cancel: () => callAbort.abort(),
+          },
+          emit: (toolCallId, toolName, input) => streamState.pushFunctionToolCall(toolCallId, toolName, input),
+          suspend: () => streamState.suspend(),
+          onResultTimeout: () => callAbort.abort(),
+          resultTimeout: toolResultTimeout,
+        })
 
         const notificationCleanup = client.onNotification((notification) => {
           if (!notification.method.startsWith("codex/event")) return
           const params = (notification.params ?? {}) as Record<string, any>
-          const meta = params["_meta"] as Record<string, any> | undefined
-          if (callRequestId !== undefined && meta && Object.prototype.hasOwnProperty.call(meta, "requestId")) {
-            const rawMetaRequestId = meta.requestId
-            const metaRequestId =
-              typeof rawMetaRequestId === "number"
-                ? rawMetaRequestId
-                : typeof rawMetaRequestId === "string"
-                ? Number.parseInt(rawMetaRequestId, 10)
-                : undefined
-            if (Number.isFinite(metaRequestId) && metaRequestId !== callRequestId) {
-              return
-            }
-          }
+          const metaRequestId = extractMetaRequestId(notification.params)
+          // Pooled processes serve several calls at once, so only this call's own events are taken. Until
+          // its request is sent (a history summary may still be running) none of them can be ours.
+          if (callRequestId === undefined) return
+          if (metaRequestId !== undefined && metaRequestId !== callRequestId) return
           const msg = params["msg"] ?? {}
           const type = typeof msg.type === "string" ? msg.type : notification.method.split("/").at(-1) ?? ""
 
+          if (type === "session_configured" && typeof msg.session_id === "string" && msg.session_id) {
+            conversationId = msg.session_id
+            return
+          }
+
           if (type === "agent_message_delta" && typeof msg.delta === "string" && msg.delta) {
             streamState.pushDelta("text", msg.delta, "agent_message_delta")
             lastAgentMessage = `${lastAgentMessage}${msg.delta}`
@@ -184,119 +447,309 @@ class CodexLanguageModel implements LanguageModelV2 {
             return
           }
 
-          if (includeReasoning && type === "agent_reasoning_delta" && typeof msg.delta === "string" && msg.delta) {
-            streamState.pushReasoning(msg.delta, "agent_reasoning_delta")
+          if (includeReasoning && type === `${reasoningEvent}_delta` && typeof msg.delta === "string" && msg.delta) {
+            streamState.pushReasoning(msg.delta, type)
             lastReasoningMessage = `${lastReasoningMessage}${msg.delta}`
             return
           }
 
-          if (includeReasoning && type === "agent_reasoning" && typeof msg.text === "string") {
+          if (includeReasoning && type === reasoningEvent && typeof msg.text === "string") {
             const text = msg.text
             if (!text) {
               lastReasoningMessage = text
               return
             }
             if (!streamState.reasoningDeltaSeen) {
-              streamState.pushReasoning(text, "agent_reasoning")
+              streamState.pushReasoning(text, type)
             }
             lastReasoningMessage = text
             return
           }
 
-          if (includeReasoning && type === "agent_reasoning_section_break") {
+          if (reasoningMode === "summary" && type === "agent_reasoning_section_break") {
             streamState.pushReasoning("\n", "agent_reasoning_section_break")
             lastReasoningMessage = `${lastReasoningMessage}\n`
             return
           }
 
-          if (includeCommandOutput && type === "exec_command_output_delta" && typeof msg.chunk === "string") {
-            const decoded = decodeExecChunk(msg.chunk)
-            if (decoded) {
-              streamState.pushDelta("exec", decoded, "exec_command_output_delta")
+          if (type === "exec_command_begin") {
+            execTracker.begin(msg)
+            return
+          }
+
+          if (type === "exec_command_output_delta") {
+            execTracker.outputDelta(msg)
+            if (includeCommandOutput && typeof msg.chunk === "string") {
+              const decoded = decodeExecChunk(msg.chunk)
+              if (decoded) {
+                streamState.pushDelta("exec", decoded, "exec_command_output_delta")
+              }
             }
             return
           }
 
+          if (type === "exec_command_end") {
+            execTracker.end(msg)
+            return
+          }
+
+          if (type === "patch_apply_begin") {
+            patchTracker.begin(msg)
+            return
+          }
+
+          if (type === "patch_apply_end") {
+            patchTracker.end(msg)
+            return
+          }
+
+          if (type === "token_count") {
+            const usage = parseTokenUsage(msg)
+            if (usage) streamState.addUsage(usage)
+            const contextWindow = msg.info?.model_context_window
+            if (typeof contextWindow === "number") streamState.setMetadata("contextWindow", contextWindow)
+            return
+          }
+
+          if (type === "turn_diff" && typeof msg.unified_diff === "string") {
+            streamState.setMetadata("turnDiff", msg.unified_diff)
+            return
+          }
+
           if (type === "task_complete") {
             finishedViaNotification = true
             // if (typeof msg.last_agent_message === "string" && msg.last_agent_message && msg.last_agent_message.trim()) {
             //   streamState.pushDelta("text", msg.last_agent_message, "task_complete")
             // }
+            rememberConversation()
             streamState.finish("stop")
             return
           }
 
           if (type === "stream_error" || type === "error") {
-            finishedViaNotification = true
             const message = typeof msg.message === "string" ? msg.message : `Codex ${type}`
-            streamState.finish("error", new Error(message))
+            failAttempt(
+              classifyCodexFailure(message, msg.codex_error_info) ??
+                // A stream error means Codex lost its connection to the model, which a new attempt may not.
+                new CodexError({
+                  message,
+                  kind: type === "stream_error" ? "stream" : "codex",
+                  isRetryable: type === "stream_error",
+                  data: { type },
+                }),
+            )
             return
           }
 
           codexLog("notification.ignored_event", { type })
         })
 
+        const approvalCleanup = client.onRequest(APPROVAL_REQUEST_METHOD, async (params, _request, signal) => {
+          const request = parseApprovalRequest(params)
+          if (!request) return undefined
+          // Shared processes serve several calls; leave other turns' approvals to their own streams.
+          if (request.toolCallRequestId !== undefined && request.toolCallRequestId !== String(callRequestId)) {
+            return undefined
+          }
+          const toolCallId = `codex-approval-${request.callId ?? callRequestId}`
+          streamState.pushToolCall(toolCallId, APPROVAL_TOOL_NAME, {
+            kind: request.kind,
+            message: request.message,
+            command: request.command,
+            cwd: request.cwd,
+            reason: request.reason,
+          })
+          const decision = await decideApproval(request, providerOptions, AbortSignal.any([callAbort.signal, signal]))
+          if (signal.aborted) {
+            // Codex withdrew the request; close the tool call without a decision.
+            streamState.pushToolResult(toolCallId, APPROVAL_TOOL_NAME, { cancelled: true })
+            return undefined
+          }
+          codexLog("approval.decided", { kind: request.kind, callId: request.callId, decision })
+          if (!providerOptions.approvalHandler && providerOptions.approvalDecision === undefined) {
+            warnDefaultApproval(client)
+          }
+          streamState.pushToolResult(toolCallId, APPROVAL_TOOL_NAME, { decision })
+          return { decision }
+        })
+
         const errorCleanup = client.onError((error) => {
           streamState.finish("error", error)
         })
 
         const exitCleanup = client.onExit((code, signal) => {
-          const message = `codex mcp-server exited unexpectedly (${code ?? "null"}${signal ? `, ${signal}` : ""})`
-          streamState.finish("error", new Error(message))
+          streamState.finish("error", new CodexProcessExitError({ code, signal }))
         })
 
+        const rememberConversation = () => {
+          if (!reuseConversation || !conversationId) return
+          sharedConversationStore.remember(options.prompt, client, {
+            conversationId,
+            reply: streamState.text,
+            bridgeToken: bridgeSession?.token,
+            ...conversationScope,
+          })
+        }
+
         const cleanupAll = () => {
           notificationCleanup()
+          approvalCleanup()
           errorCleanup()
           exitCleanup()
           abortCleanup()
           abortCleanup = () => {}
-          client.close()
+          relay.cancel("The Codex turn ended before opencode returned the tool result")
+          if (bridgeSession?.handler === relay.handleCall) {
+            bridgeSession.handler = undefined
+          }
+          release()
         }
 
         const abortHandler = () => {
-          streamState.finish("error", new DOMException("Aborted", "AbortError"))
+          callAbort.abort()
+          streamState.finish("error", new CodexAbortedError())
         }
 
-        if (options.abortSignal) {
-          if (options.abortSignal.aborted) {
+        // A turn suspended for tool calls continues under the abort signal of the call that resumes it.
+        const watchAbort = (signal?: AbortSignal) => {
+          abortCleanup()
+          abortCleanup = () => {}
+          if (!signal) return
+          if (signal.aborted) {
             abortHandler()
-            cleanupAll()
             return
           }
-          options.abortSignal.addEventListener("abort", abortHandler, { once: true })
-          abortCleanup = () => options.abortSignal?.removeEventListener("abort", abortHandler)
+          signal.addEventListener("abort", abortHandler, { once: true })
+          abortCleanup = () => signal.removeEventListener("abort", abortHandler)
         }
 
+        if (options.abortSignal?.aborted) {
+          abortHandler()
+          cleanupAll()
+          return
+        }
+        watchAbort(options.abortSignal)
+
         try {
-          await client.initialize(providerOptions.clientInfo)
-          const { result } = await client.callCodex(toolArgs, {
-            abortSignal: options.abortSignal,
-            onNotification: (notification) => codexLog("notification", { notification }),
-            onRequestId: (id) => {
-              callRequestId = id
-            },
+          client.setRoots(workspaceRoots(cwd, providerOptions.additionalRoots))
+          await client.initialize(providerOptions.clientInfo, {
+            timeout: providerOptions.initializeTimeout ?? DEFAULT_INITIALIZE_TIMEOUT,
           })
-          if (finishedViaNotification) {
-            return
+          if (approvalPolicy !== "never" && !client.supports("elicitation")) {
+            warnNoElicitation(client)
           }
-          if (!result || typeof result !== "object") {
-            throw new Error("Codex MCP tool returned an invalid result")
+          const startsConversation = !(conversationId && replyText)
+          if (elided.length) {
+            const report: Record<string, JsonValue> = {
+              sentMessages: history.kept.length,
+              elidedMessages: elided.length,
+              elidedTokens,
+              budgetTokens: historyTokens ?? null,
+              strategy: historyStrategy,
+            }
+            if (historyStrategy === "summarize") {
+              const summary = await summarizeHistory(client, elided, render, {
+                model: toolArgs["model"] as string,
+                cwd,
+                maxTokens: Math.floor((historyTokens ?? 0) * HISTORY_SUMMARY_SHARE),
+                contextTokens: historyTokens,
+                idleTimeout: providerOptions.idleTimeout ?? DEFAULT_IDLE_TIMEOUT,
+                abortSignal: callAbort.signal,
+              })
+              report["summarized"] = summary !== undefined
+              if (summary) toolArgs["prompt"] = withHistoryNote(summary)
+            }
+            streamState.setMetadata("history", report)
           }
-          const text = extractTextFromResult(result)
-          const isError =
-            !!(result && typeof result === "object" && "isError" in result && (result as Record<string, any>)["isError"])
-          if (isError) {
-            throw new Error(text || "Codex MCP tool invocation failed")
+          if (baseInstructions && startsConversation) {
+            // Codex keeps a conversation's instructions, so they are only sent when one starts.
+            routeSystemPrompt(toolArgs, baseInstructions, client, providerOptions.systemPromptMode)
           }
-          if (text) {
-            const prefixLength = sharedPrefixLength(lastAgentMessage, text)
-            const delta = text.slice(prefixLength)
-            if (delta) {
-              streamState.pushDelta("text", delta, "call_result")
+          if (bridgedTools.length && startsConversation) {
+            // Codex connects to MCP servers when a conversation starts, so the bridge is wired in once per conversation.
+            bridgeSession = await sharedToolBridge.openSession(bridgedTools)
+            codexConfig["experimental_use_rmcp_client"] = true
+            codexConfig["mcp_servers"] = {
+              [TOOL_BRIDGE_SERVER_NAME]: {
+                url: bridgeSession.url,
+                tool_timeout_sec: Math.ceil(toolResultTimeout / 1000),
+              },
+            }
+          }
+          if (bridgeSession) {
+            bridgeSession.tools = bridgedTools
+            bridgeSession.handler = relay.handleCall
+          }
+          for (let attempt = 1; ; attempt += 1) {
+            attemptAbort = new AbortController()
+            attemptError = undefined
+            lastAgentMessage = ""
+            const callOptions = {
+              abortSignal: AbortSignal.any([callAbort.signal, attemptAbort.signal]),
+              onNotification: (notification: JsonRpcNotification) => codexLog("notification", { notification }),
+              onRequestId: (id: number) => {
+                callRequestId = id
+              },
+              onProgress: (progress: CodexProgress) => {
+                streamState.setMetadata("progress", progress)
+                if (options.includeRawChunks) streamState.pushRaw({ type: "codex.progress", ...progress })
+              },
+              idleTimeout: providerOptions.idleTimeout ?? DEFAULT_IDLE_TIMEOUT,
+              totalTimeout: providerOptions.totalTimeout,
+              // Codex is quiet while opencode runs the bridged tools it asked for.
+              holdIdleTimeout: () => relay.isSuspended,
+            }
+            try {
+              // Only the new user turn goes to a live conversation; otherwise start over from the flattened history.
+              // A retry picks up the conversation the failed attempt left behind, if Codex got that far.
+              const { result } =
+                attempt > 1 && conversationId
+                  ? await client.callCodexReply({ conversationId, prompt: RETRY_CONTINUATION_PROMPT }, callOptions)
+                  : conversationId && !startsConversation
+                    ? await client.callCodexReply({ conversationId, prompt: replyText }, callOptions)
+                    : await client.callCodex(toolArgs, callOptions)
+              if (attemptError) throw attemptError
+              conversationId = extractConversationId(result) ?? conversationId
+              if (finishedViaNotification) {
+                return
+              }
+              if (!result || typeof result !== "object") {
+                throw new CodexProtocolError({ message: "Codex MCP tool returned an invalid result", data: result })
+              }
+              const text = extractTextFromResult(result)
+              const isError =
+                !!(result && typeof result === "object" && "isError" in result && (result as Record<string, any>)["isError"])
+              if (isError) {
+                const message = text || "Codex MCP tool invocation failed"
+                throw classifyCodexFailure(message) ?? new CodexError({ message })
+              }
+              if (text) {
+                const prefixLength = sharedPrefixLength(lastAgentMessage, text)
+                const delta = text.slice(prefixLength)
+                if (delta) {
+                  streamState.pushDelta("text", delta, "call_result")
+                }
+              }
+              rememberConversation()
+              streamState.finish("stop")
+              return
+            } catch (error) {
+              const failure = attemptError ?? error
+              if (
+                finishedViaNotification ||
+                streamState.isFinished ||
+                client.isClosed() ||
+                // Without a conversation to continue, a retry starts the answer over and would repeat what already streamed.
+                (!conversationId && streamState.hasOutput) ||
+                !shouldRetry(failure, attempt, retryPolicy)
+              ) {
+                throw failure
+              }
+              const delayMs = retryDelay(attempt, retryPolicy, failure)
+              recordRetry(attempt, delayMs, failure)
+              if (!(await waitForRetry(delayMs, callAbort.signal))) return
             }
           }
-          streamState.finish("stop")
         } catch (error) {
           if (finishedViaNotification) {
             codexLog("callCodex.finished_after_notification", {
@@ -305,6 +758,10 @@ class CodexLanguageModel implements LanguageModelV2 {
                   ? { message: error.message, name: error.name }
                   : { message: String(error) },
             })
+          } else if (CodexAbortedError.isInstance(error) && isServerCancellation(error)) {
+            // Codex ended the turn itself (an interrupt, a shutdown); what streamed so far stands.
+            streamState.setMetadata("cancelled", error.data as JsonValue)
+            streamState.finish("other")
           } else {
             streamState.finish("error", error instanceof Error ? error : new Error(String(error)))
           }
@@ -313,7 +770,9 @@ class CodexLanguageModel implements LanguageModelV2 {
         }
       },
       cancel: async () => {
-        await client.close()
+        // The process may be shared, so cancel only our request and hand the client back.
+        callAbort.abort()
+        release()
       },
     })
 
@@ -323,13 +782,37 @@ class CodexLanguageModel implements LanguageModelV2 {
   private extractProviderOptions(options: LanguageModelV2CallOptions): CodexProviderOptions {
     const providerSpecific =
       ((options.providerOptions ?? {}) as Record<string, CodexProviderOptions | undefined>)[this.provider] ?? {}
-    return providerSpecific
+    return mergeProviderOptions(this.defaults, providerSpecific)
   }
 }
 
-export function createCodexProvider(): ProviderV2 {
+/** The parts of opencode's model entry the provider reads. */
+export type CodexModelInfo = {
+  limit?: { context?: number }
+}
+
+export type CodexProvider = ProviderV2 & {
+  /**
+   * `options` are the model's own settings, layered over the provider's.
+   * `info` is opencode's entry for the model; its context limit becomes the
+   * default `contextWindow`.
+   */
+  languageModel(modelId: string, options?: CodexProviderOptions, info?: CodexModelInfo): LanguageModelV2
+}
+
+/**
+ * Creates the Codex provider. `settings` are defaults for every model; options
+ * given to `languageModel` override them, and per-call
+ * `providerOptions.codex` overrides both, key by key.
+ */
+export function createCodexProvider(settings: CodexProviderOptions = {}): CodexProvider {
   return {
-    languageModel: (modelId: string) => new CodexLanguageModel(modelId),
+    languageModel: (modelId: string, options?: CodexProviderOptions, info?: CodexModelInfo) => {
+      const context = info?.limit?.context
+      // opencode uses 0 for an unknown limit, which is no window at all.
+      const limits = typeof context === "number" && context > 0 ? { contextWindow: context } : undefined
+      return new CodexLanguageModel(modelId, mergeProviderOptions(settings, limits, options))
+    },
     textEmbeddingModel: (modelId:string) => {
       throw new Error(`Codex provider does not support text embeddings (requested model: ${modelId})`)
     },
@@ -0,0 +1,174 @@
+import { createHash } from "node:crypto"
+import type { LanguageModelV2Prompt } from "@ai-sdk/provider"
+import type { CodexMCPClient } from "./codexClient"
+import { codexLog } from "./logger"
+
+const STORE_CONFIG = {
+  MAX_SIZE: 200, // Maximum number of remembered conversations
+  TTL_MS: 6 * 60 * 60 * 1000, // Forget conversations untouched for six hours
+} as const
+
+/** Turn settings a live conversation keeps; `codex-reply` cannot change them. */
+export type ConversationSettings = {
+  model: string
+  sandbox: string
+  approvalPolicy: string
+  cwd: string
+}
+
+/** What a completed turn leaves behind for the next turn of its session. */
+export type ConversationRecord = {
+  conversationId: string
+  /** The answer text the turn streamed; the next history must carry it back. */
+  reply: string
+  /** Tool bridge session the conversation was configured with, if any. */
+  bridgeToken?: string
+  /** The opencode session the turn belongs to, when known. */
+  session?: string
+  settings?: ConversationSettings
+}
+
+export type ConversationScope = {
+  session?: string
+  /** The settings of the new turn; a conversation started with others is not continued. */
+  settings?: ConversationSettings
+}
+
+type ConversationEntry = ConversationRecord & {
+  client: CodexMCPClient
+  updatedAt: number
+}
+
+export type ConversationMatch = {
+  conversationId: string
+  bridgeToken?: string
+  /** Messages that arrived after the history Codex already saw. */
+  newMessages: LanguageModelV2Prompt
+}
+
+/**
+ * Remembers which Codex conversation belongs to which opencode session.
+ *
+ * opencode resends the whole history on every turn, so a session is identified
+ * by a hash chain over its non-system messages: after a turn completes, the
+ * digest of everything we sent is stored against the Codex conversation id.
+ * The next turn's history starts with exactly those messages, so its longest
+ * known prefix leads back to the live conversation. System messages are left
+ * out because opencode regenerates them (dates, environment) on every turn.
+ *
+ * Sessions that open with the same messages share those digests, so entries
+ * are scoped to the opencode session when it is known, and a match only counts
+ * when the assistant messages that follow it carry the reply Codex gave.
+ */
+export class ConversationStore {
+  private readonly entries = new Map<string, ConversationEntry>()
+
+  find(
+    prompt: LanguageModelV2Prompt,
+    client: CodexMCPClient,
+    scope: ConversationScope = {},
+  ): ConversationMatch | undefined {
+    const digests = prefixDigests(prompt)
+    for (let index = digests.length - 1; index >= 0; index -= 1) {
+      const { digest, end } = digests[index]!
+      const key = entryKey(digest, scope.session)
+      const entry = this.entries.get(key)
+      if (!entry) continue
+      if (!this.isLive(entry, client)) {
+        this.entries.delete(key)
+        return undefined
+      }
+      const newMessages = prompt.slice(end)
+      if (!newMessages.length) return undefined
+      // Another session's conversation reached through the same opening messages.
+      if (!compact(assistantReply(newMessages)).includes(compact(entry.reply))) continue
+      if (!sameSettings(entry.settings, scope.settings)) {
+        // The session changed the model, sandbox, approval policy or cwd; only a new conversation takes them up.
+        codexLog("conversation.settings_changed", { conversationId: entry.conversationId })
+        return undefined
+      }
+      return { conversationId: entry.conversationId, bridgeToken: entry.bridgeToken, newMessages }
+    }
+    return undefined
+  }
+
+  remember(prompt: LanguageModelV2Prompt, client: CodexMCPClient, record: ConversationRecord) {
+    const digests = prefixDigests(prompt)
+    const last = digests.at(-1)
+    // Without a reply there is nothing to tell this conversation from another one with the same history.
+    if (!last || !compact(record.reply)) return
+    this.entries.set(entryKey(last.digest, record.session), { ...record, client, updatedAt: Date.now() })
+    this.prune()
+  }
+
+  get size() {
+    return this.entries.size
+  }
+
+  clear() {
+    this.entries.clear()
+  }
+
+  private isLive(entry: ConversationEntry, client: CodexMCPClient) {
+    // Conversations live inside one mcp-server process and die with it.
+    if (entry.client !== client || client.isClosed()) return false
+    return Date.now() - entry.updatedAt < STORE_CONFIG.TTL_MS
+  }
+
+  private prune() {
+    const now = Date.now()
+    for (const [key, entry] of this.entries) {
+      if (entry.client.isClosed() || now - entry.updatedAt >= STORE_CONFIG.TTL_MS) {
+        this.entries.delete(key)
+      }
+    }
+    if (this.entries.size <= STORE_CONFIG.MAX_SIZE) return
+    const oldest = [...this.entries.entries()].sort(([, a], [, b]) => a.updatedAt - b.updatedAt)
+    for (const [key] of oldest.slice(0, this.entries.size - STORE_CONFIG.MAX_SIZE)) {
+      this.entries.delete(key)
+    }
+  }
+}
+
+function prefixDigests(prompt: LanguageModelV2Prompt) {
+  const digests: { digest: string; end: number }[] = []
+  let previous = ""
+  prompt.forEach((message, index) => {
+    if (message.role === "system") return
+    previous = createHash("sha256")
+      .update(previous)
+      .update(JSON.stringify({ role: message.role, content: message.content }))
+      .digest("hex")
+    digests.push({ digest: previous, end: index + 1 })
+  })
+  return digests
+}
+
+function sameSettings(stored?: ConversationSettings, requested?: ConversationSettings) {
+  if (!stored || !requested) return stored === requested
+  return (Object.keys(stored) as (keyof ConversationSettings)[]).every((key) => stored[key] === requested[key])
+}
+
+function entryKey(digest: string, session?: string) {
+  return session ? `${session}:${digest}` : digest
+}
+
+/** The text of the assistant messages that answered the turn, up to the next user message. */
+function assistantReply(messages: LanguageModelV2Prompt) {
+  const texts: string[] = []
+  for (const message of messages) {
+    if (message.role === "user") break
+    if (message.role !== "assistant") continue
+    for (const part of message.content) {
+      if (part.type === "text") texts.push(part.text)
+    }
+  }
+  return texts.join("")
+}
+
+// opencode may trim or split the streamed text, so replies are compared without whitespace.
+function compact(text: string) {
+  return text.replace(/\s+/g, "")
+}
+
+export const sharedConversationStore = new ConversationStore()
@@ -0,0 +1,310 @@
+import { AISDKError } from "@ai-sdk/provider"
+
+const marker = "opencode-codex-provider.error"
+const symbol = Symbol.for(marker)
+
+export const CODEX_ERROR_KINDS = [
+  "spawn",
+  "connection",
+  "binary-not-found",
+  "unsupported-version",
+  "process-exit",
+  "crash-loop",
+  "not-logged-in",
+  "rate-limited",
+  "usage-limit",
+  "protocol",
+  "sandbox-denied",
+  "aborted",
+  "timeout",
+  "stream",
+  "invalid-options",
+  "codex",
+] as const
+
+export type CodexErrorKind = (typeof CODEX_ERROR_KINDS)[number]
+
+/**
+ * Base class of the errors the provider surfaces. Like the AI SDK's
+ * `APICallError`, `isRetryable` tells callers whether trying again can help.
+ */
+export class CodexError extends AISDKError {
+  private readonly [symbol] = true
+
+  readonly kind: CodexErrorKind
+  readonly isRetryable: boolean
+  readonly data?: unknown
+
+  constructor({
+    name = "CodexError",
+    kind = "codex",
+    message,
+    cause,
+    isRetryable = false,
+    data,
+  }: {
+    name?: string
+    kind?: CodexErrorKind
+    message: string
+    cause?: unknown
+    isRetryable?: boolean
+    data?: unknown
+  }) {
+    super({ name, message, cause })
+    this.kind = kind
+    this.isRetryable = isRetryable
+    this.data = data
+  }
+
+  static override isInstance(error: unknown): error is CodexError {
+    return AISDKError.hasMarker(error, marker)
+  }
+}
+
+/** The `codex mcp-server` process could not be started. */
+export class CodexSpawnError extends CodexError {
+  constructor({ command, cause }: { command: string; cause?: unknown }) {
+    super({
+      name: "CodexSpawnError",
+      kind: "spawn",
+      message: `Failed to start ${command}: ${cause instanceof Error ? cause.message : String(cause)}`,
+      cause,
+      isRetryable: true,
+      data: { command },
+    })
+  }
+}
+
+/** A remote MCP endpoint could not be reached or dropped the connection. */
+export class CodexConnectionError extends CodexError {
+  constructor({ url, message, cause }: { url: string; message?: string; cause?: unknown }) {
+    super({
+      name: "CodexConnectionError",
+      kind: "connection",
+      message: `${message ?? "Failed to connect to"} ${url}${cause instanceof Error ? `: ${cause.message}` : ""}`,
+      cause,
+      isRetryable: true,
+      data: { url },
+    })
+  }
+}
+
+export class CodexBinaryNotFoundError extends CodexError {
+  constructor({ command, cause, searched }: { command: string; cause?: unknown; searched?: string[] }) {
+    super({
+      name: "CodexBinaryNotFoundError",
+      kind: "binary-not-found",
+      message: `Codex binary not found: ${command}. Install the Codex CLI or point the \`binary\` option at it.${
+        searched?.length ? `\nSearched: ${searched.join(", ")}` : ""
+      }`,
+      cause,
+      data: { command, searched },
+    })
+  }
+}
+
+/** The installed Codex CLI is too old to serve this provider. */
+export class CodexUnsupportedVersionError extends CodexError {
+  constructor({ command, version, minVersion }: { command: string; version: string; minVersion: string }) {
+    super({
+      name: "CodexUnsupportedVersionError",
+      kind: "unsupported-version",
+      message: `Codex ${version} at ${command} is too old; this provider needs ${minVersion} or newer. Upgrade with \`npm install -g @openai/codex@latest\` (or \`brew upgrade codex\`).`,
+      data: { command, version, minVersion },
+    })
+  }
+}
+
+/** The process exited for a reason nothing more specific explains. */
+export class CodexProcessExitError extends CodexError {
+  constructor({ code, signal, stderr }: { code: number | null; signal: NodeJS.Signals | null; stderr?: string }) {
+    super({
+      name: "CodexProcessExitError",
+      kind: "process-exit",
+      message: `codex mcp-server exited with code ${code ?? "null"}${signal ? ` signal ${signal}` : ""}${stderr ? `\n${stderr}` : ""}`,
+      isRetryable: true,
+      data: { code, signal, stderr },
+    })
+  }
+}
+
+/** Processes for these spawn settings crashed repeatedly; no new one starts until `retryAt`. */
+export class CodexCrashLoopError extends CodexError {
+  constructor({ lastExit, retryAt }: { lastExit?: { reason: string }; retryAt?: number }) {
+    super({
+      name: "CodexCrashLoopError",
+      kind: "crash-loop",
+      message: `codex mcp-server keeps crashing${lastExit ? ` (last exit: ${lastExit.reason})` : ""}; not restarting it${
+        retryAt ? ` before ${new Date(retryAt).toISOString()}` : ""
+      }`,
+      data: { lastExit, retryAt },
+    })
+  }
+}
+
+export class CodexNotLoggedInError extends CodexError {
+  constructor({ message, data }: { message: string; data?: unknown }) {
+    super({
+      name: "CodexNotLoggedInError",
+      kind: "not-logged-in",
+      message: `${message}\nRun \`codex login\` and try again.`,
+      data,
+    })
+  }
+}
+
+export class CodexRateLimitError extends CodexError {
+  /** How long the server asked us to wait, when it said so. */
+  readonly retryAfterMs?: number
+
+  constructor({ message, retryAfterMs, data }: { message: string; retryAfterMs?: number; data?: unknown }) {
+    super({ name: "CodexRateLimitError", kind: "rate-limited", message, isRetryable: true, data })
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/** The account's usage limit is used up; retrying before it resets is pointless. */
+export class CodexUsageLimitError extends CodexError {
+  constructor({ message, data }: { message: string; data?: unknown }) {
+    super({ name: "CodexUsageLimitError", kind: "usage-limit", message, data })
+  }
+}
+
+/** The server sent something that is not valid MCP, or answered with a JSON-RPC error. */
+export class CodexProtocolError extends CodexError {
+  constructor({ message, cause, data }: { message: string; cause?: unknown; data?: unknown }) {
+    super({ name: "CodexProtocolError", kind: "protocol", message, cause, data })
+  }
+}
+
+export class CodexSandboxDeniedError extends CodexError {
+  constructor({ message, data }: { message: string; data?: unknown }) {
+    super({ name: "CodexSandboxDeniedError", kind: "sandbox-denied", message, data })
+  }
+}
+
+/** Named `AbortError` so abort checks that go by name keep working. */
+export class CodexAbortedError extends CodexError {
+  constructor({ message = "Aborted", reason, data }: { message?: string; reason?: unknown; data?: unknown } = {}) {
+    super({ name: "AbortError", kind: "aborted", message, cause: reason, data })
+  }
+}
+
+export type CodexTimeoutPhase = "initialize" | "idle" | "total"
+
+export type CodexOptionIssue = {
+  /** Dotted path of the option, e.g. `retry.maxAttempts`. */
+  key: string
+  received: unknown
+  /** What the option accepts, e.g. `"read-only" | "workspace-write"`. */
+  expected: string
+  message: string
+}
+
+/** Provider options failed validation with `strictOptions` on. */
+export class CodexInvalidOptionsError extends CodexError {
+  constructor(issues: CodexOptionIssue[]) {
+    super({
+      name: "CodexInvalidOptionsError",
+      kind: "invalid-options",
+      message: `Invalid codex provider options:\n${issues.map((issue) => `- ${issue.message}`).join("\n")}`,
+      data: { issues },
+    })
+  }
+}
+
+/** A deadline configured through the provider options ran out. */
+export class CodexTimeoutError extends CodexError {
+  constructor(
+    readonly phase: CodexTimeoutPhase,
+    readonly timeoutMs: number,
+    message: string,
+    name = "CodexTimeoutError",
+  ) {
+    // A turn that hit its total deadline would most likely hit it again.
+    super({ name, kind: "timeout", message, isRetryable: phase !== "total", data: { phase, timeoutMs } })
+  }
+}
+
+export class CodexInitializeTimeoutError extends CodexTimeoutError {
+  constructor(timeoutMs: number) {
+    super(
+      "initialize",
+      timeoutMs,
+      `codex mcp-server did not complete the MCP handshake within ${timeoutMs}ms`,
+      "CodexInitializeTimeoutError",
+    )
+  }
+}
+
+export class CodexIdleTimeoutError extends CodexTimeoutError {
+  constructor(timeoutMs: number) {
+    super("idle", timeoutMs, `Codex sent no events for ${timeoutMs}ms`, "CodexIdleTimeoutError")
+  }
+}
+
+export class CodexTotalTimeoutError extends CodexTimeoutError {
+  constructor(timeoutMs: number) {
+    super("total", timeoutMs, `Codex did not finish the turn within ${timeoutMs}ms`, "CodexTotalTimeoutError")
+  }
+}
+
+// Matched against stderr and Codex error events, most specific first.
+const FAILURE_PATTERNS = {
+  USAGE_LIMIT: /usage limit|insufficient_quota|exceeded your current quota|usage_limit_(?:reached|exceeded)/i,
+  RATE_LIMIT: /rate.?limit|too many requests|\b429\b/i,
+  NOT_LOGGED_IN:
+    /not logged in|codex login|unauthori[sz]ed|\b401\b|invalid api key|missing api key|no api key|authentication (?:failed|required)/i,
+  SANDBOX_DENIED: /sandbox(?:ed)? (?:denied|error)|denied by (?:the )?sandbox|blocked by (?:the )?sandbox|landlock|seatbelt/i,
+} as const
+
+/**
+ * Maps a failure Codex reported (the final error lines of its stderr, or the
+ * `message` and `codex_error_info` of an `error`/`stream_error` event) to a typed error.
+ * Returns undefined when nothing recognisable is in it.
+ */
+export function classifyCodexFailure(message: string, info?: unknown): CodexError | undefined {
+  const data = info === undefined ? undefined : { codexErrorInfo: info }
+  const text = `${message}\n${typeof info === "string" ? info : info ? JSON.stringify(info) : ""}`
+  const summary = message.trim() || "Codex request failed"
+
+  if (FAILURE_PATTERNS.USAGE_LIMIT.test(text)) return new CodexUsageLimitError({ message: summary, data })
+  if (FAILURE_PATTERNS.RATE_LIMIT.test(text)) {
+    return new CodexRateLimitError({ message: summary, retryAfterMs: parseRetryAfter(text), data })
+  }
+  if (FAILURE_PATTERNS.NOT_LOGGED_IN.test(text)) return new CodexNotLoggedInError({ message: summary, data })
+  if (FAILURE_PATTERNS.SANDBOX_DENIED.test(text)) return new CodexSandboxDeniedError({ message: summary, data })
+  return undefined
+}
+
+const ERROR_LINE = /\b(?:error|fatal|panic(?:ked)?)\b/i
+
+/**
+ * The part of a process's stderr that says why it ended: from the last line
+ * that reports an error to the end, or the last line when none does. Earlier
+ * log lines may mention a 429 or 401 that was handled, so they are not classified.
+ */
+export function finalErrorLines(output: string) {
+  const lines = output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    if (ERROR_LINE.test(lines[index]!)) return lines.slice(index).join("\n")
+  }
+  return lines.at(-1) ?? ""
+}
+
+/** Reads "try again in 20s" / "retry after 1.5 seconds" hints. */
+export function parseRetryAfter(text: string): number | undefined {
+  const match = /(?:try again|retry)\s+(?:in|after)\s+([\d.]+)\s*(ms|milliseconds?|s|sec(?:ond)?s?|m|min(?:ute)?s?)\b/i.exec(
+    text,
+  )
+  if (!match) return undefined
+  const value = Number.parseFloat(match[1]!)
+  if (!Number.isFinite(value)) return undefined
+  const unit = match[2]!.toLowerCase()
+  if (unit.startsWith("ms") || unit.startsWith("milli")) return Math.round(value)
+  if (unit.startsWith("m")) return Math.round(value * 60_000)
+  return Math.round(value * 1000)
+}
@@ -0,0 +1,145 @@
+import { CodexConnectionError } from "./errors"
+import { codexLog } from "./logger"
+import { BaseTransport } from "./transport"
+import type { JsonRpcMessage } from "./types"
+import { JSONRPC_VERSION, MCP_PROTOCOL_VERSION } from "./types"
+
+/**
+ * Talks to an MCP server over Streamable HTTP. Every message is POSTed to the
+ * endpoint; the server answers with JSON or with an SSE stream that carries the
+ * response together with the notifications and requests it sends meanwhile.
+ * Once a session exists, a GET stream picks up messages not tied to a request.
+ */
+export class HttpTransport extends BaseTransport {
+  private readonly abort = new AbortController()
+  private sessionId?: string
+  private listening = false
+  private protocolVersion: string = MCP_PROTOCOL_VERSION
+
+  constructor(
+    private readonly url: string,
+    private readonly options: { headers?: Record<string, string> } = {},
+  ) {
+    super()
+  }
+
+  send(message: JsonRpcMessage) {
+    if (this.closed) return
+    void this.post(message)
+  }
+
+  setProtocolVersion(version: string) {
+    this.protocolVersion = version
+  }
+
+  protected shutdown() {
+    this.abort.abort()
+    if (!this.sessionId) return
+    fetch(this.url, { method: "DELETE", headers: this.headers() }).catch(() => { })
+  }
+
+  private headers(extra: Record<string, string> = {}) {
+    return {
+      ...this.options.headers,
+      ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId, "MCP-Protocol-Version": this.protocolVersion } : {}),
+      ...extra,
+    }
+  }
+
+  private async post(message: JsonRpcMessage) {
+    let response: Response
+    try {
+      response = await fetch(this.url, {
+        method: "POST",
+        headers: this.headers({ "Content-Type": "application/json", Accept: "application/json, text/event-stream" }),
+        body: JSON.stringify(message),
+        signal: this.abort.signal,
+      })
+    } catch (error) {
+      if (!this.closed) this.fail(new CodexConnectionError({ url: this.url, cause: error }))
+      return
+    }
+
+    const sessionId = response.headers.get("mcp-session-id")
+    if (sessionId) this.sessionId = sessionId
+
+    if (response.status === 404 && this.sessionId) {
+      this.fail(new CodexConnectionError({ url: this.url, message: "MCP session expired at" }))
+      return
+    }
+    if (!response.ok) {
+      const body = await response.text().catch(() => "")
+      if ("id" in message && "method" in message) {
+        // Fail just this request; the client classifies the message like any JSON-RPC error.
+        this.deliver({
+          jsonrpc: JSONRPC_VERSION,
+          id: message.id,
+          error: { code: -32000, message: `HTTP ${response.status}${body ? `: ${body}` : ""}` },
+        })
+      } else {
+        codexLog("http.post_failed", { status: response.status, body })
+      }
+      return
+    }
+
+    if ("method" in message && message.method === "initialize") void this.listen()
+    if (response.status === 202 || !response.body) return
+    try {
+      if ((response.headers.get("content-type") ?? "").includes("text/event-stream")) {
+        await this.readEvents(response.body)
+        return
+      }
+      const text = await response.text()
+      if (!text.trim()) return
+      const payload = JSON.parse(text)
+      for (const item of Array.isArray(payload) ? payload : [payload]) {
+        this.deliver(item)
+      }
+    } catch (error) {
+      if (this.closed) return
+      this.fail(new CodexConnectionError({ url: this.url, message: "Lost the response stream from", cause: error }))
+    }
+  }
+
+  /** Opens the GET stream for server-initiated messages; servers without one answer 405. */
+  private async listen() {
+    if (this.listening || !this.sessionId) return
+    this.listening = true
+    try {
+      const response = await fetch(this.url, {
+        method: "GET",
+        headers: this.headers({ Accept: "text/event-stream" }),
+        signal: this.abort.signal,
+      })
+      if (!response.ok || !response.body) return
+      await this.readEvents(response.body)
+    } catch (error) {
+      if (!this.closed) codexLog("http.listen_failed", { error: String(error) })
+    }
+  }
+
+  private async readEvents(body: ReadableStream<Uint8Array>) {
+    const decoder = new TextDecoder()
+    let buffer = ""
+    for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n?/g, "\n")
+      let boundary = buffer.indexOf("\n\n")
+      while (boundary !== -1) {
+        this.handleEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf("\n\n")
+      }
+    }
+    if (buffer.trim()) this.handleEvent(buffer)
+  }
+
+  private handleEvent(block: string) {
+    let event = "message"
+    const data: string[] = []
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim()
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""))
+    }
+    if (event === "message" && data.length) this.deliverRaw(data.join("\n"))
+  }
+}
@@ -8,3 +8,32 @@ export const codexLog = (message: string, extra?: Record<string, any>) => {
   }
   console.debug(parts.join(" "))
 }
+
+/** Problems the user should see even with debug logging off. */
+export const codexWarn = (message: string) => {
+  console.warn(`[opencode-codex-provider] ${message}`)
+}
+
+/** MCP log levels in ascending severity (RFC 5424). */
+export const MCP_LOG_LEVELS = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"] as const
+export type McpLogLevel = (typeof MCP_LOG_LEVELS)[number]
+
+/** The least severe server log level worth receiving: everything when debugging, warnings otherwise. */
+export const serverLogThreshold = (): McpLogLevel => (shouldLog() ? "debug" : "warning")
+
+/**
+ * Forwards a `notifications/message` from the server. Warnings and worse are
+ * printed; anything milder only with debug logging on.
+ */
+export const codexServerLog = (level: string, data: unknown, logger?: string) => {
+  const severity = MCP_LOG_LEVELS.indexOf(level as McpLogLevel)
+  const source = logger ? `codex[${logger}]` : "codex"
+  if (severity < MCP_LOG_LEVELS.indexOf("warning")) {
+    codexLog("server.log", { level, logger, data })
+    return
+  }
+  const text = typeof data === "string" ? data : JSON.stringify(data)
+  const line = `[opencode-codex-provider] ${source} ${level}: ${text}`
+  if (level === "warning") console.warn(line)
+  else console.error(line)
+}
@@ -123,6 +123,14 @@ interface ProviderInfo {
   getModel?: (sdk: any, modelID: string) => Promise<any>
 }
 
+/** Settings a custom factory is called with */
+interface FactorySettings {
+  providerOptions?: Record<string, any>
+  modelOptions?: Record<string, any>
+  /** opencode's entry for the model (limits, capabilities), for factories that size requests by it */
+  modelInfo?: ModelInfo
+}
+
 interface ModelInfo {
   id: string
   name: string
@@ -355,6 +363,16 @@ function getFactoryInfo(providerConfig: ProviderInfo): {
   }
 }
 
+/**
+ * Extracts the options the factory receives as provider-level settings
+ * @param providerConfig - Provider configuration
+ * @returns The provider's options without the factory module path
+ */
+function getFactoryOptions(providerConfig: ProviderInfo): Record<string, any> {
+  const { providerFactory: _providerFactory, ...options } = providerConfig.options ?? {}
+  return options
+}
+
 /**
  * Attempts to import a module using a specific strategy
  * @param strategy - The import strategy to use
@@ -496,13 +514,15 @@ function extractFactoryWithErrorHandling(moduleObject: any, context: ErrorContex
  * @param factoryModule - Module path to load
  * @param modelID - Model identifier to create
  * @param context - Error context for better error messages
+ * @param settings - Provider and model options, and the model's entry, handed to the factory
  * @returns Promise<any> The created language model
  * @throws InitError if loading or creation fails
  */
 async function loadCustomFactory(
   factoryModule: string,
   modelID: string,
-  context: ErrorContext
+  context: ErrorContext,
+  settings: FactorySettings = {}
 ): Promise<any> {
   // Import the factory module
   const moduleObject = await importFactoryModule(factoryModule, context)
@@ -515,7 +535,7 @@ async function loadCustomFactory(
   
   // Create the language model using the factory
   try {
-    return factoryFunction().languageModel(modelID)
+    return factoryFunction(settings.providerOptions).languageModel(modelID, settings.modelOptions, settings.modelInfo)
   } catch (error) {
     throw createInitError(
       { ...context, operation: 'language_model_creation' },
@@ -764,7 +784,12 @@ async function handleCustomFactoryRequest(
     operation: 'custom_factory_loading'
   }
   
-  const languageModel = await loadCustomFactory(factoryModule, modelID, context)
+  // Precedence: provider options < model options < per-call providerOptions (applied by the model)
+  const languageModel = await loadCustomFactory(factoryModule, modelID, context, {
+    providerOptions: getFactoryOptions(providerConfig),
+    modelOptions: modelInfo.options,
+    modelInfo
+  })
   
   // Log successful model loading
   codexLog(ERROR_MESSAGES.MODEL_LOADED, { 
@@ -0,0 +1,288 @@
+import { CODEX_ERROR_KINDS, type CodexOptionIssue } from "./errors"
+import type { CodexProviderOptions } from "./types"
+
+export const APPROVAL_POLICIES = ["untrusted", "on-failure", "on-request", "never"] as const
+export const SANDBOX_MODES = ["read-only", "workspace-write", "danger-full-access"] as const
+
+type OptionSchema =
+  /** `fallback` replaces an invalid value instead of the option's usual default. */
+  | { type: "string"; enum?: readonly string[]; fallback?: string }
+  | { type: "number"; min?: number; max?: number }
+  | { type: "boolean" }
+  | { type: "function" }
+  | { type: "string[]"; enum?: readonly string[] }
+  | { type: "string-record" }
+  | {
+      type: "object"
+      properties: Record<string, OptionSchema>
+      /** Whether `false` is accepted in place of the object, to switch the feature off. */
+      allowFalse?: boolean
+      /** Checks that span several properties; returns what was expected when they fail. */
+      check?: (value: Record<string, unknown>) => string | undefined
+    }
+
+const milliseconds: OptionSchema = { type: "number", min: 0 }
+
+const OPTION_SCHEMA: Record<keyof CodexProviderOptions, OptionSchema> = {
+  transport: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: ["stdio", "http", "websocket", "replay"] },
+      url: { type: "string" },
+      headers: { type: "string-record" },
+      protocols: { type: "string[]" },
+      cassette: { type: "string" },
+      speed: { type: "number", min: 0 },
+    },
+    check: (transport) => {
+      if (transport["type"] === undefined) return 'an object with a "type"'
+      if ((transport["type"] === "http" || transport["type"] === "websocket") && !transport["url"]) {
+        return `a "url" for type "${transport["type"]}"`
+      }
+      if (transport["type"] === "replay" && !transport["cassette"]) return 'a "cassette" for type "replay"'
+      return undefined
+    },
+  },
+  recordDir: { type: "string" },
+  binary: { type: "string" },
+  versionCheck: { type: "boolean" },
+  args: { type: "string[]" },
+  env: { type: "string-record" },
+  spawnCwd: { type: "string" },
+  reuseProcess: { type: "boolean" },
+  processIdleTtl: milliseconds,
+  supervisor: {
+    type: "object",
+    allowFalse: true,
+    properties: {
+      restartDelayMs: milliseconds,
+      maxRestartDelayMs: milliseconds,
+      crashLoopThreshold: { type: "number", min: 1 },
+      crashLoopWindowMs: milliseconds,
+      circuitResetMs: milliseconds,
+    },
+  },
+  initializeTimeout: milliseconds,
+  idleTimeout: milliseconds,
+  totalTimeout: milliseconds,
+  retry: {
+    type: "object",
+    allowFalse: true,
+    properties: {
+      maxAttempts: { type: "number", min: 1 },
+      initialDelayMs: milliseconds,
+      maxDelayMs: milliseconds,
+      backoffFactor: { type: "number", min: 1 },
+      jitter: { type: "number", min: 0 },
+      retryOn: { type: "string[]", enum: CODEX_ERROR_KINDS },
+    },
+  },
+  strictOptions: { type: "boolean" },
+  cwd: { type: "string" },
+  additionalRoots: { type: "string[]" },
+  // An invalid value must not widen what Codex may do, so these fall back to their strictest setting.
+  approvalPolicy: { type: "string", enum: APPROVAL_POLICIES, fallback: "untrusted" },
+  sandboxMode: { type: "string", enum: SANDBOX_MODES, fallback: "read-only" },
+  approvalHandler: { type: "function" },
+  approvalDecision: { type: "string", enum: ["approve", "approve-for-session", "deny"], fallback: "deny" },
+  model: { type: "string" },
+  systemPromptMode: { type: "string", enum: ["developer", "replace", "inline"] },
+  reasoningEffort: { type: "string", enum: ["minimal", "low", "medium", "high"] },
+  reuseConversation: { type: "boolean" },
+  sessionId: { type: "string" },
+  transcriptRenderer: { type: "function" },
+  contextWindow: { type: "number", min: 1 },
+  historyLimit: {
+    type: "object",
+    allowFalse: true,
+    properties: {
+      maxTokens: { type: "number", min: 1 },
+      contextShare: { type: "number", min: 0, max: 1 },
+      strategy: { type: "string", enum: ["drop", "summarize"] },
+    },
+  },
+  bridgeTools: { type: "boolean" },
+  toolResultTimeout: milliseconds,
+  streamCommandOutput: { type: "boolean" },
+  streamReasoning: { type: "boolean" },
+  reasoningMode: { type: "string", enum: ["summary", "raw", "none"] },
+  includeMessageSource: { type: "boolean" },
+  clientInfo: {
+    type: "object",
+    properties: { name: { type: "string" }, version: { type: "string" } },
+  },
+}
+
+// Set by the opencode plugin for the monkey patch; not a model option.
+const HOST_OPTIONS = new Set(["providerFactory"])
+
+/**
+ * Checks provider options against what each option accepts. Invalid values
+ * are dropped, so the option's default applies, or replaced by the option's
+ * strictest setting where a default could grant more than was asked for.
+ * Unknown keys are reported and dropped too.
+ */
+export function validateProviderOptions(options: Record<string, unknown>): {
+  options: CodexProviderOptions
+  issues: CodexOptionIssue[]
+} {
+  const issues: CodexOptionIssue[] = []
+  const valid: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined || HOST_OPTIONS.has(key)) continue
+    const schema = (OPTION_SCHEMA as Record<string, OptionSchema>)[key]
+    if (!schema) {
+      const suggestion = closestKey(key, Object.keys(OPTION_SCHEMA))
+      issues.push({
+        key,
+        received: value,
+        expected: "a known option",
+        message: `Unknown codex option "${key}"${suggestion ? `; did you mean "${suggestion}"?` : "."} It is ignored.`,
+      })
+      continue
+    }
+    const checked = checkValue(schema, value, key, issues)
+    if ("value" in checked) {
+      valid[key] = checked.value
+      continue
+    }
+    const fallback = schema.type === "string" ? schema.fallback : undefined
+    issues.push({
+      key,
+      received: value,
+      expected: checked.expected,
+      message: `Invalid codex option "${key}": received ${describe(value)}, expected ${checked.expected}. ${
+        fallback ? `Using "${fallback}" instead.` : "Using the default instead."
+      }`,
+    })
+    if (fallback) valid[key] = fallback
+  }
+  return { options: valid as CodexProviderOptions, issues }
+}
+
+/**
+ * Returns the value to use, or what was expected when `value` does not fit
+ * `schema`. Problems in nested properties are reported as issues of their own
+ * and drop only that property from the returned copy.
+ */
+function checkValue(
+  schema: OptionSchema,
+  value: unknown,
+  key: string,
+  issues: CodexOptionIssue[],
+): { value: unknown } | { expected: string } {
+  const problem = checkShape(schema, value)
+  if (problem) return { expected: problem }
+  if (schema.type !== "object" || value === false) return { value }
+
+  const cleaned: Record<string, unknown> = {}
+  for (const [property, item] of Object.entries(value as Record<string, unknown>)) {
+    const propertySchema = schema.properties[property]
+    const path = `${key}.${property}`
+    const accepted = Object.keys(schema.properties).join(", ")
+    if (!propertySchema) {
+      issues.push({
+        key: path,
+        received: item,
+        expected: `one of ${accepted}`,
+        message: `Unknown codex option "${path}"; "${key}" accepts ${accepted}. It is ignored.`,
+      })
+      continue
+    }
+    if (item === undefined) continue
+    const checked = checkValue(propertySchema, item, path, issues)
+    if ("value" in checked) {
+      cleaned[property] = checked.value
+      continue
+    }
+    issues.push({
+      key: path,
+      received: item,
+      expected: checked.expected,
+      message: `Invalid codex option "${path}": received ${describe(item)}, expected ${checked.expected}. Using the default instead.`,
+    })
+  }
+  const expected = schema.check?.(cleaned)
+  return expected ? { expected } : { value: cleaned }
+}
+
+/** What was expected when `value` is not of the schema's type; undefined when it is. */
+function checkShape(schema: OptionSchema, value: unknown): string | undefined {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return schema.enum ? listOf(schema.enum) : "a string"
+      if (schema.enum && !schema.enum.includes(value)) return listOf(schema.enum)
+      return undefined
+    case "number": {
+      const expected =
+        schema.min !== undefined && schema.max !== undefined
+          ? `a number from ${schema.min} to ${schema.max}`
+          : schema.min !== undefined
+            ? `a number >= ${schema.min}`
+            : schema.max !== undefined
+              ? `a number <= ${schema.max}`
+              : "a number"
+      if (typeof value !== "number" || Number.isNaN(value)) return expected
+      if (schema.min !== undefined && value < schema.min) return expected
+      if (schema.max !== undefined && value > schema.max) return expected
+      return undefined
+    }
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "true or false"
+    case "function":
+      return typeof value === "function" ? undefined : "a function"
+    case "string[]": {
+      const expected = schema.enum ? `an array of ${listOf(schema.enum)}` : "an array of strings"
+      if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) return expected
+      if (schema.enum && !value.every((item) => schema.enum!.includes(item))) return expected
+      return undefined
+    }
+    case "string-record":
+      if (!isObject(value) || !Object.values(value).every((item) => typeof item === "string")) {
+        return "an object of string values"
+      }
+      return undefined
+    case "object":
+      if (schema.allowFalse && value === false) return undefined
+      return isObject(value) ? undefined : schema.allowFalse ? "an object or false" : "an object"
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+function listOf(values: readonly string[]) {
+  return values.map((value) => JSON.stringify(value)).join(" | ")
+}
+
+function describe(value: unknown) {
+  if (typeof value === "function") return "a function"
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch {
+    return String(value)
+  }
+}
+
+/** The known option within two edits of `key`, to catch typos. */
+function closestKey(key: string, known: string[]) {
+  let best: { key: string; distance: number } | undefined
+  for (const candidate of known) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase())
+    if (distance <= 2 && (!best || distance < best.distance)) best = { key: candidate, distance }
+  }
+  return best?.key
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]!
+}
@@ -0,0 +1,65 @@
+import { CodexError } from "./errors"
+import type { CodexRetryPolicy } from "./types"
+
+const RETRY_DEFAULTS = {
+  MAX_ATTEMPTS: 3, // Attempts per turn, including the first
+  INITIAL_DELAY_MS: 1000,
+  MAX_DELAY_MS: 30 * 1000,
+  BACKOFF_FACTOR: 2,
+  JITTER: 0.2, // Spread each delay by up to ±20%
+} as const
+
+/** Sent through `codex-reply` when a turn is retried inside its conversation. */
+export const RETRY_CONTINUATION_PROMPT =
+  "Your previous response was interrupted by a connection error. Continue where you left off."
+
+export type ResolvedRetryPolicy = Required<Omit<CodexRetryPolicy, "retryOn">> & Pick<CodexRetryPolicy, "retryOn">
+
+export function resolveRetryPolicy(retry: CodexRetryPolicy | false | undefined): ResolvedRetryPolicy {
+  const policy = retry === false ? { maxAttempts: 1 } : (retry ?? {})
+  return {
+    maxAttempts: Math.max(1, Math.floor(policy.maxAttempts ?? RETRY_DEFAULTS.MAX_ATTEMPTS)),
+    initialDelayMs: Math.max(0, policy.initialDelayMs ?? RETRY_DEFAULTS.INITIAL_DELAY_MS),
+    maxDelayMs: Math.max(0, policy.maxDelayMs ?? RETRY_DEFAULTS.MAX_DELAY_MS),
+    backoffFactor: Math.max(1, policy.backoffFactor ?? RETRY_DEFAULTS.BACKOFF_FACTOR),
+    jitter: Math.min(1, Math.max(0, policy.jitter ?? RETRY_DEFAULTS.JITTER)),
+    retryOn: policy.retryOn,
+  }
+}
+
+/**
+ * Whether a failed attempt should be tried again. Without `retryOn` the error's
+ * own `isRetryable` decides; with it, only the listed kinds are retried.
+ */
+export function shouldRetry(error: unknown, attempt: number, policy: ResolvedRetryPolicy) {
+  if (attempt >= policy.maxAttempts || !CodexError.isInstance(error)) return false
+  if (error.kind === "aborted") return false
+  return policy.retryOn ? policy.retryOn.includes(error.kind) : error.isRetryable
+}
+
+/** Exponential backoff with jitter; a server-suggested wait takes precedence when it is longer. */
+export function retryDelay(attempt: number, policy: ResolvedRetryPolicy, error?: unknown, random = Math.random) {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.backoffFactor ** (attempt - 1))
+  const delay = Math.round(base * (1 - policy.jitter + 2 * policy.jitter * random()))
+  const retryAfterMs = (error as { retryAfterMs?: unknown } | undefined)?.retryAfterMs
+  return typeof retryAfterMs === "number" ? Math.max(delay, retryAfterMs) : delay
+}
+
+/** Resolves to false when `signal` aborts before the delay is over. */
+export function waitForRetry(delayMs: number, signal?: AbortSignal) {
+  return new Promise<boolean>((resolve) => {
+    if (signal?.aborted) {
+      resolve(false)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve(false)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve(true)
+    }, delayMs)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
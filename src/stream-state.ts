@@ -1,5 +1,6 @@
-import { LanguageModelV2FinishReason, LanguageModelV2StreamPart } from "@ai-sdk/provider";
-import { CodexMCPClient } from "./codexClient";
+import type { LanguageModelV2FinishReason, LanguageModelV2StreamPart, LanguageModelV2Usage } from "@ai-sdk/provider";
+import type { JsonValue } from "./types";
+import { addUsage } from "./utils";
 
 type StreamType = "text" | "exec" | "reasoning";
 
@@ -8,16 +9,63 @@ export class StreamState {
   private streams: Map<StreamType, boolean> = new Map();
   private lastReasoningChunk = "";
   private lastReasoningNormalized = "";
+  private metadata: Record<string, JsonValue> = {};
+  private usage: LanguageModelV2Usage = {
+    inputTokens: undefined,
+    outputTokens: undefined,
+    totalTokens: undefined,
+  };
   public reasoningDeltaSeen = false;
+  private outputSeen = false;
+  private textOutput = "";
 
   constructor(
-    private readonly controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>,
-    private readonly client: CodexMCPClient,
+    private controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>,
+    private readonly release: () => void,
     private readonly includeReasoning: boolean,
   ) {}
 
+  public get isFinished() {
+    return this.finished;
+  }
+
+  /** Whether text, reasoning or a tool part has reached the consumer; a turn that restarts would repeat it. */
+  public get hasOutput() {
+    return this.outputSeen;
+  }
+
+  /** The answer text streamed so far, across the steps of a turn suspended for tool calls. */
+  public get text() {
+    return this.textOutput;
+  }
+
   public finish(reason: LanguageModelV2FinishReason, error?: Error) {
     if (this.finished) return;
+    this.close(reason, error);
+    this.release();
+  }
+
+  /**
+   * Ends the current step with `tool-calls` while the Codex turn keeps running,
+   * so the stream of the next model call can pick it up via `resume`.
+   */
+  public suspend() {
+    if (this.finished) return;
+    this.close("tool-calls");
+  }
+
+  public resume(controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>) {
+    this.controller = controller;
+    this.finished = false;
+    this.metadata = {};
+    this.usage = {
+      inputTokens: undefined,
+      outputTokens: undefined,
+      totalTokens: undefined,
+    };
+  }
+
+  private close(reason: LanguageModelV2FinishReason, error?: Error) {
     this.finished = true;
 
     if (error) {
@@ -31,27 +79,33 @@ export class StreamState {
     this.controller.enqueue({
       type: "finish",
       finishReason: reason,
-      usage: {
-        inputTokens: undefined,
-        outputTokens: undefined,
-        totalTokens: undefined,
-      },
+      usage: this.usage,
+      ...(Object.keys(this.metadata).length ? { providerMetadata: { codex: this.metadata } } : {}),
     });
 
     this.controller.close();
-    this.client.close();
+  }
+
+  /** Adds the usage of one model request to the turn total. */
+  public addUsage(usage: LanguageModelV2Usage) {
+    this.usage = addUsage(this.usage, usage);
+  }
+
+  /** Attaches a value to the `codex` provider metadata of the finish part. */
+  public setMetadata(key: string, value: JsonValue) {
+    this.metadata[key] = value;
   }
 
   public ensureStreamStart(type: StreamType) {
-    if (!this.streams.has(type)) {
+    if (!this.finished && !this.streams.has(type)) {
       this.streams.set(type, true);
-      this.controller.enqueue({ type: "text-start", id: `codex-${type}` });
+      this.controller.enqueue({ type: type === "reasoning" ? "reasoning-start" : "text-start", id: `codex-${type}` });
     }
   }
 
   private endStream(type: StreamType) {
     if (this.streams.has(type)) {
-      this.controller.enqueue({ type: "text-end", id: `codex-${type}` });
+      this.controller.enqueue({ type: type === "reasoning" ? "reasoning-end" : "text-end", id: `codex-${type}` });
       this.streams.delete(type);
     }
   }
@@ -80,11 +134,56 @@ export class StreamState {
     }
   }
 
+  public pushToolCall(toolCallId: string, toolName: string, input: unknown) {
+    if (this.finished) return;
+    this.outputSeen = true;
+    this.controller.enqueue({
+      type: "tool-call",
+      toolCallId,
+      toolName,
+      input: JSON.stringify(input ?? {}),
+      providerExecuted: true,
+    });
+  }
+
+  /** Emits a call to one of opencode's own tools, which opencode executes. */
+  public pushFunctionToolCall(toolCallId: string, toolName: string, input: unknown) {
+    if (this.finished) return;
+    this.outputSeen = true;
+    this.controller.enqueue({
+      type: "tool-call",
+      toolCallId,
+      toolName,
+      input: JSON.stringify(input ?? {}),
+    });
+  }
+
+  public pushToolResult(toolCallId: string, toolName: string, result: unknown, isError = false) {
+    if (this.finished) return;
+    this.outputSeen = true;
+    this.controller.enqueue({
+      type: "tool-result",
+      toolCallId,
+      toolName,
+      result,
+      isError,
+      providerExecuted: true,
+    });
+  }
+
+  /** Emits a provider-specific `raw` part. */
+  public pushRaw(rawValue: unknown) {
+    if (this.finished) return;
+    this.controller.enqueue({ type: "raw", rawValue });
+  }
+
   public pushDelta(type: StreamType, delta: string, source?: string) {
-    if (!delta) return;
+    if (!delta || this.finished) return;
     if (type === "reasoning" && !this.includeReasoning) return;
 
+    this.outputSeen = true;
+    if (type === "text") this.textOutput += delta;
     this.ensureStreamStart(type);
-    this.controller.enqueue({ type: "text-delta", id: `codex-${type}`, delta });
+    this.controller.enqueue({ type: type === "reasoning" ? "reasoning-delta" : "text-delta", id: `codex-${type}`, delta });
   }
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+import type { CodexSupervisorOptions } from "./types"
+
+const SUPERVISOR_DEFAULTS = {
+  RESTART_DELAY_MS: 500, // First restart delay, doubled per recent crash
+  MAX_RESTART_DELAY_MS: 30 * 1000,
+  CRASH_LOOP_THRESHOLD: 5, // Crashes within the window that open the circuit
+  CRASH_LOOP_WINDOW_MS: 60 * 1000,
+  CIRCUIT_RESET_MS: 5 * 60 * 1000, // How long an open circuit refuses new processes
+} as const
+
+export type ProcessExit = {
+  code: number | null
+  signal: NodeJS.Signals | null
+  reason: string
+  at: number
+}
+
+export type SupervisorStatus = {
+  restarts: number
+  lastExit?: ProcessExit
+  circuitOpen: boolean
+  /** When an open circuit lets the next process start, in epoch milliseconds. */
+  retryAt?: number
+}
+
+/**
+ * Crash bookkeeping for the processes of one pool key: how many times they
+ * were restarted, why the last one exited, and whether they crash so often
+ * that starting another one is pointless for a while.
+ */
+export class CrashSupervisor {
+  private readonly config: Required<CodexSupervisorOptions>
+  private crashes: number[] = []
+  private openedAt?: number
+  private restarts = 0
+  private lastExit?: ProcessExit
+
+  constructor(options: CodexSupervisorOptions = {}, private readonly now: () => number = Date.now) {
+    this.config = {
+      restartDelayMs: options.restartDelayMs ?? SUPERVISOR_DEFAULTS.RESTART_DELAY_MS,
+      maxRestartDelayMs: options.maxRestartDelayMs ?? SUPERVISOR_DEFAULTS.MAX_RESTART_DELAY_MS,
+      crashLoopThreshold: options.crashLoopThreshold ?? SUPERVISOR_DEFAULTS.CRASH_LOOP_THRESHOLD,
+      crashLoopWindowMs: options.crashLoopWindowMs ?? SUPERVISOR_DEFAULTS.CRASH_LOOP_WINDOW_MS,
+      circuitResetMs: options.circuitResetMs ?? SUPERVISOR_DEFAULTS.CIRCUIT_RESET_MS,
+    }
+  }
+
+  /** Records an unexpected exit; returns false when it opened the circuit. */
+  recordExit(exit: Omit<ProcessExit, "at">) {
+    const at = this.now()
+    this.lastExit = { ...exit, at }
+    this.crashes = [...this.crashes.filter((time) => at - time < this.config.crashLoopWindowMs), at]
+    if (this.crashes.length >= this.config.crashLoopThreshold) {
+      this.openedAt = at
+      return false
+    }
+    return true
+  }
+
+  recordRestart() {
+    this.restarts += 1
+  }
+
+  /** Backoff before the next restart, growing with the crashes in the window. */
+  restartDelay() {
+    const exponent = Math.max(0, this.crashes.length - 1)
+    return Math.min(this.config.maxRestartDelayMs, this.config.restartDelayMs * 2 ** exponent)
+  }
+
+  isOpen() {
+    if (this.openedAt === undefined) return false
+    if (this.now() - this.openedAt < this.config.circuitResetMs) return true
+    // Let the next process try again with a clean slate.
+    this.openedAt = undefined
+    this.crashes = []
+    return false
+  }
+
+  status(): SupervisorStatus {
+    const circuitOpen = this.isOpen()
+    return {
+      restarts: this.restarts,
+      ...(this.lastExit ? { lastExit: this.lastExit } : {}),
+      circuitOpen,
+      ...(circuitOpen && this.openedAt !== undefined ? { retryAt: this.openedAt + this.config.circuitResetMs } : {}),
+    }
+  }
+}
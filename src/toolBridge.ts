@@ -0,0 +1,399 @@
+import { randomUUID } from "node:crypto"
+import http from "node:http"
+import type {
+  LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  LanguageModelV2ToolResultOutput,
+} from "@ai-sdk/provider"
+import { codexLog } from "./logger"
+import type { JsonRpcResponse, JsonRpcServerRequest, JsonValue } from "./types"
+import { JSONRPC_VERSION, MCP_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from "./types"
+
+export const TOOL_BRIDGE_SERVER_NAME = "opencode"
+export const DEFAULT_TOOL_RESULT_TIMEOUT = 10 * 60 * 1000
+
+// Codex may issue several tool calls back to back; surface them in one step.
+const TOOL_CALL_BATCH_WINDOW_MS = 50
+const SESSION_TTL_MS = 6 * 60 * 60 * 1000
+
+export type BridgedTool = {
+  name: string
+  description?: string
+  inputSchema: JsonValue
+}
+
+export type BridgeToolCall = {
+  name: string
+  arguments: Record<string, JsonValue>
+}
+
+/** An MCP `CallToolResult`. */
+export type BridgeToolResult = {
+  content: JsonValue[]
+  isError?: boolean
+}
+
+export type BridgeSession = {
+  token: string
+  url: string
+  tools: BridgedTool[]
+  handler?: (call: BridgeToolCall) => Promise<BridgeToolResult>
+  touchedAt: number
+}
+
+/**
+ * A minimal Streamable HTTP MCP server that lets Codex call opencode's own
+ * function tools. Each Codex conversation gets its own session token in the
+ * URL; the tools and the call handler of a session are swapped per turn.
+ */
+export class ToolBridgeServer {
+  private server?: http.Server
+  private listening?: Promise<string>
+  private readonly sessions = new Map<string, BridgeSession>()
+
+  async openSession(tools: BridgedTool[]): Promise<BridgeSession> {
+    const baseUrl = await this.baseUrl()
+    this.prune()
+    const token = randomUUID()
+    const session: BridgeSession = { token, url: `${baseUrl}/mcp/${token}`, tools, touchedAt: Date.now() }
+    this.sessions.set(token, session)
+    return session
+  }
+
+  getSession(token: string) {
+    const session = this.sessions.get(token)
+    if (session) session.touchedAt = Date.now()
+    return session
+  }
+
+  close() {
+    this.sessions.clear()
+    this.server?.close()
+    this.server = undefined
+    this.listening = undefined
+  }
+
+  private baseUrl() {
+    if (!this.listening) {
+      this.listening = new Promise<string>((resolve, reject) => {
+        const server = http.createServer((req, res) => {
+          void this.handleHttp(req, res)
+        })
+        server.once("error", reject)
+        server.listen(0, "127.0.0.1", () => {
+          const address = server.address()
+          if (!address || typeof address === "string") {
+            reject(new Error("Tool bridge failed to bind a local port"))
+            return
+          }
+          server.unref()
+          resolve(`http://127.0.0.1:${address.port}`)
+        })
+        this.server = server
+      })
+      this.listening.catch(() => {
+        this.listening = undefined
+      })
+    }
+    return this.listening
+  }
+
+  private prune() {
+    const now = Date.now()
+    for (const [token, session] of this.sessions) {
+      if (now - session.touchedAt >= SESSION_TTL_MS) this.sessions.delete(token)
+    }
+  }
+
+  private async handleHttp(req: http.IncomingMessage, res: http.ServerResponse) {
+    const match = /^\/mcp\/([\w-]+)$/.exec(req.url ?? "")
+    const session = match ? this.getSession(match[1]!) : undefined
+    if (!session) {
+      res.writeHead(404).end()
+      return
+    }
+    if (req.method === "DELETE") {
+      res.writeHead(200).end()
+      return
+    }
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST, DELETE" }).end()
+      return
+    }
+
+    let payload: unknown
+    try {
+      const chunks: Buffer[] = []
+      for await (const chunk of req) chunks.push(chunk as Buffer)
+      payload = JSON.parse(Buffer.concat(chunks).toString("utf-8"))
+    } catch {
+      res
+        .writeHead(400, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ jsonrpc: JSONRPC_VERSION, id: null, error: { code: -32700, message: "Parse error" } }))
+      return
+    }
+
+    const messages = Array.isArray(payload) ? payload : [payload]
+    const responses = (await Promise.all(messages.map((message) => this.handleMessage(session, message)))).filter(
+      (response): response is JsonRpcResponse => response !== undefined,
+    )
+    if (!responses.length) {
+      res.writeHead(202).end()
+      return
+    }
+    res
+      .writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": session.token })
+      .end(JSON.stringify(Array.isArray(payload) ? responses : responses[0]))
+  }
+
+  private async handleMessage(session: BridgeSession, message: unknown): Promise<JsonRpcResponse | undefined> {
+    const request = parseRequest(message)
+    if (!request) return undefined
+    const params = isJsonObject(request.params) ? request.params : {}
+    const respond = (result: JsonValue): JsonRpcResponse => ({ jsonrpc: JSONRPC_VERSION, id: request.id, result })
+
+    switch (request.method) {
+      case "initialize": {
+        const requested = params["protocolVersion"]
+        return respond({
+          // Echo the client's version when it is one we speak, otherwise propose our newest.
+          protocolVersion:
+            typeof requested === "string" && (SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(requested)
+              ? requested
+              : MCP_PROTOCOL_VERSION,
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: "opencode-codex-provider", version: "0.0.0" },
+        })
+      }
+      case "ping":
+        return respond({})
+      case "tools/list":
+        return respond({ tools: session.tools })
+      case "tools/call": {
+        const name = typeof params["name"] === "string" ? params["name"] : ""
+        const args = isJsonObject(params["arguments"]) ? params["arguments"] : {}
+        if (!session.tools.some((tool) => tool.name === name)) {
+          return respond(errorResult(`Unknown opencode tool: ${name}`))
+        }
+        if (!session.handler) {
+          return respond(errorResult("No opencode turn is waiting for tool calls"))
+        }
+        codexLog("bridge.tool_call", { name })
+        return respond(await session.handler({ name, arguments: args }))
+      }
+      default:
+        return {
+          jsonrpc: JSONRPC_VERSION,
+          id: request.id,
+          error: { code: -32601, message: `Method not found: ${request.method}` },
+        }
+    }
+  }
+}
+
+/** The request in a message Codex posted; notifications and malformed messages need no answer. */
+function parseRequest(message: unknown): JsonRpcServerRequest | undefined {
+  if (!isJsonObject(message) || typeof message["method"] !== "string") return undefined
+  const id = message["id"]
+  if (typeof id !== "number" && typeof id !== "string") return undefined
+  return {
+    jsonrpc: JSONRPC_VERSION,
+    id,
+    method: message["method"],
+    ...(message["params"] !== undefined ? { params: message["params"] } : {}),
+  }
+}
+
+function isJsonObject(value: unknown): value is { [key: string]: JsonValue } {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+/** What a suspended Codex turn needs to continue in the stream of the next model call. */
+export type SuspendedTurn = {
+  resume: (
+    controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>,
+    results: Map<string, LanguageModelV2ToolResultOutput>,
+    abortSignal?: AbortSignal,
+  ) => void
+  cancel: () => void
+}
+
+const suspendedTurns = new Map<string, SuspendedTurn>()
+
+/**
+ * Finds the Codex turn waiting for the tool results at the end of `prompt`.
+ */
+export function findSuspendedTurn(prompt: LanguageModelV2Prompt) {
+  const results = new Map<string, LanguageModelV2ToolResultOutput>()
+  for (let index = prompt.length - 1; index >= 0; index -= 1) {
+    const message = prompt[index]!
+    if (message.role !== "tool") break
+    for (const part of message.content) {
+      results.set(part.toolCallId, part.output)
+    }
+  }
+  for (const toolCallId of results.keys()) {
+    const turn = suspendedTurns.get(toolCallId)
+    if (turn) return { turn, results }
+  }
+  return undefined
+}
+
+type RelayedCall = {
+  toolCallId: string
+  toolName: string
+  input: Record<string, JsonValue>
+  resolve: (result: BridgeToolResult) => void
+}
+
+/**
+ * Carries tool calls of one Codex turn over to opencode and their results back.
+ *
+ * A call from Codex is emitted as a `tool-call` part and the step is suspended;
+ * the Codex request stays open until the next model call brings the result.
+ */
+export class ToolCallRelay {
+  private readonly queued: RelayedCall[] = []
+  private readonly awaiting = new Map<string, RelayedCall>()
+  private attached = true
+  private flushTimer?: ReturnType<typeof setTimeout>
+  private resultTimer?: ReturnType<typeof setTimeout>
+
+  constructor(
+    private readonly options: {
+      turn: SuspendedTurn
+      emit: (toolCallId: string, toolName: string, input: Record<string, JsonValue>) => void
+      suspend: () => void
+      onResultTimeout: () => void
+      resultTimeout: number
+    },
+  ) {}
+
+  readonly handleCall = (call: BridgeToolCall) =>
+    new Promise<BridgeToolResult>((resolve) => {
+      this.queued.push({
+        toolCallId: `codex-tool-${randomUUID()}`,
+        toolName: call.name,
+        input: call.arguments,
+        resolve,
+      })
+      this.scheduleFlush()
+    })
+
+  get isSuspended() {
+    return !this.attached
+  }
+
+  resume(results: Map<string, LanguageModelV2ToolResultOutput>) {
+    if (this.resultTimer) {
+      clearTimeout(this.resultTimer)
+      this.resultTimer = undefined
+    }
+    for (const [toolCallId, call] of this.awaiting) {
+      suspendedTurns.delete(toolCallId)
+      const output = results.get(toolCallId)
+      call.resolve(output ? toCallToolResult(output) : errorResult("opencode did not return a result for this tool call"))
+    }
+    this.awaiting.clear()
+    this.attached = true
+    if (this.queued.length) this.scheduleFlush()
+  }
+
+  cancel(reason: string) {
+    if (this.flushTimer) clearTimeout(this.flushTimer)
+    if (this.resultTimer) clearTimeout(this.resultTimer)
+    for (const call of [...this.queued, ...this.awaiting.values()]) {
+      suspendedTurns.delete(call.toolCallId)
+      call.resolve(errorResult(reason))
+    }
+    this.queued.length = 0
+    this.awaiting.clear()
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer || !this.attached) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined
+      this.flush()
+    }, TOOL_CALL_BATCH_WINDOW_MS)
+  }
+
+  private flush() {
+    if (!this.attached || !this.queued.length) return
+    for (const call of this.queued.splice(0)) {
+      this.awaiting.set(call.toolCallId, call)
+      suspendedTurns.set(call.toolCallId, this.options.turn)
+      this.options.emit(call.toolCallId, call.toolName, call.input)
+    }
+    this.attached = false
+    this.options.suspend()
+    this.resultTimer = setTimeout(() => {
+      codexLog("bridge.result_timeout", { pending: [...this.awaiting.keys()] })
+      this.options.onResultTimeout()
+    }, this.options.resultTimeout)
+    this.resultTimer.unref?.()
+  }
+}
+
+/**
+ * Codex decides on its own whether to call a tool, so a `toolChoice` that
+ * demands a call cannot be enforced; it is reported instead of silently dropped.
+ */
+export function toolChoiceWarning(
+  toolChoice: LanguageModelV2CallOptions["toolChoice"],
+): LanguageModelV2CallWarning | undefined {
+  if (toolChoice?.type !== "required" && toolChoice?.type !== "tool") return undefined
+  return {
+    type: "unsupported-setting",
+    setting: "toolChoice",
+    details:
+      toolChoice.type === "required"
+        ? 'Codex cannot be made to call a tool; "required" offers the tools as "auto" does.'
+        : `Codex cannot be made to call a tool; only "${toolChoice.toolName}" is offered, and Codex may answer without it.`,
+  }
+}
+
+/** Picks the function tools Codex may call, honouring `toolChoice`. */
+export function toBridgedTools(
+  tools: LanguageModelV2CallOptions["tools"],
+  toolChoice: LanguageModelV2CallOptions["toolChoice"],
+): BridgedTool[] {
+  if (!tools?.length || toolChoice?.type === "none") return []
+  return tools
+    .filter((tool) => tool.type === "function")
+    .filter((tool) => toolChoice?.type !== "tool" || tool.name === toolChoice.toolName)
+    .map((tool) => ({
+      name: tool.name,
+      ...(tool.description ? { description: tool.description } : {}),
+      inputSchema: (tool.inputSchema ?? { type: "object" }) as JsonValue,
+    }))
+}
+
+export function toCallToolResult(output: LanguageModelV2ToolResultOutput): BridgeToolResult {
+  switch (output.type) {
+    case "text":
+      return { content: [{ type: "text", text: output.value }] }
+    case "json":
+      return { content: [{ type: "text", text: JSON.stringify(output.value, null, 2) }] }
+    case "error-text":
+      return errorResult(output.value)
+    case "error-json":
+      return errorResult(JSON.stringify(output.value, null, 2))
+    case "content":
+      return {
+        content: output.value.map((item): JsonValue =>
+          item.type === "text"
+            ? { type: "text", text: item.text }
+            : { type: "image", data: item.data, mimeType: item.mediaType },
+        ),
+      }
+  }
+}
+
+function errorResult(message: string): BridgeToolResult {
+  return { content: [{ type: "text", text: message }], isError: true }
+}
+
+export const sharedToolBridge = new ToolBridgeServer()
@@ -0,0 +1,208 @@
+import type { StreamState } from "./stream-state"
+import { decodeExecChunk } from "./utils"
+
+export const EXEC_TOOL_NAME = "codex_exec"
+export const PATCH_TOOL_NAME = "codex_apply_patch"
+
+type ExecRun = {
+  command: string
+  argv: string[]
+  cwd?: string
+  startedAt: number
+  stdout: string
+  stderr: string
+}
+
+/**
+ * Turns Codex `exec_command_*` events into provider-executed tool-call and
+ * tool-result parts, so commands render like any other tool invocation.
+ */
+export class ExecCommandTracker {
+  private readonly runs = new Map<string, ExecRun>()
+
+  constructor(private readonly streamState: StreamState) {}
+
+  begin(msg: Record<string, any>) {
+    const callId = typeof msg.call_id === "string" ? msg.call_id : undefined
+    if (!callId || this.runs.has(callId)) return
+    this.start(callId, msg)
+  }
+
+  outputDelta(msg: Record<string, any>) {
+    const callId = typeof msg.call_id === "string" ? msg.call_id : undefined
+    const run = callId ? this.runs.get(callId) : undefined
+    if (!run || typeof msg.chunk !== "string") return
+    const decoded = decodeExecChunk(msg.chunk)
+    if (!decoded) return
+    if (msg.stream === "stderr") {
+      run.stderr += decoded
+    } else {
+      run.stdout += decoded
+    }
+  }
+
+  end(msg: Record<string, any>) {
+    const callId = typeof msg.call_id === "string" ? msg.call_id : undefined
+    if (!callId) return
+    const run = this.runs.get(callId) ?? this.start(callId, msg)
+    this.runs.delete(callId)
+
+    const exitCode = typeof msg.exit_code === "number" ? msg.exit_code : null
+    const stdout = typeof msg.stdout === "string" && msg.stdout ? msg.stdout : run.stdout
+    const stderr = typeof msg.stderr === "string" && msg.stderr ? msg.stderr : run.stderr
+    const aggregatedOutput =
+      typeof msg.aggregated_output === "string" && msg.aggregated_output
+        ? msg.aggregated_output
+        : [stdout, stderr].filter(Boolean).join("\n")
+
+    this.streamState.pushToolResult(
+      callId,
+      EXEC_TOOL_NAME,
+      {
+        command: run.command,
+        cwd: run.cwd,
+        exitCode,
+        durationMs: parseDuration(msg.duration) ?? Date.now() - run.startedAt,
+        stdout,
+        stderr,
+        aggregatedOutput,
+      },
+      exitCode !== 0,
+    )
+  }
+
+  private start(callId: string, msg: Record<string, any>) {
+    const argv = Array.isArray(msg.command) ? msg.command.map(String) : []
+    const run: ExecRun = {
+      command: typeof msg.command === "string" ? msg.command : formatCommand(argv),
+      argv,
+      cwd: typeof msg.cwd === "string" ? msg.cwd : undefined,
+      startedAt: Date.now(),
+      stdout: "",
+      stderr: "",
+    }
+    this.runs.set(callId, run)
+    this.streamState.pushToolCall(callId, EXEC_TOOL_NAME, {
+      command: run.command,
+      argv: run.argv,
+      cwd: run.cwd,
+    })
+    return run
+  }
+}
+
+export type FileChange = {
+  path: string
+  kind: "add" | "update" | "delete"
+  movePath?: string
+  diff: string
+}
+
+/**
+ * Turns Codex `patch_apply_begin` / `patch_apply_end` events into provider-executed
+ * tool-call and tool-result parts carrying the per-file changes.
+ */
+export class PatchApplyTracker {
+  private readonly pending = new Map<string, FileChange[]>()
+
+  constructor(private readonly streamState: StreamState) {}
+
+  begin(msg: Record<string, any>) {
+    const callId = typeof msg.call_id === "string" ? msg.call_id : undefined
+    if (!callId || this.pending.has(callId)) return
+    this.start(callId, msg)
+  }
+
+  end(msg: Record<string, any>) {
+    const callId = typeof msg.call_id === "string" ? msg.call_id : undefined
+    if (!callId) return
+    const changes = this.pending.get(callId) ?? this.start(callId, msg)
+    this.pending.delete(callId)
+
+    const success = msg.success !== false
+    this.streamState.pushToolResult(
+      callId,
+      PATCH_TOOL_NAME,
+      {
+        success,
+        changes,
+        stdout: typeof msg.stdout === "string" ? msg.stdout : "",
+        stderr: typeof msg.stderr === "string" ? msg.stderr : "",
+      },
+      !success,
+    )
+  }
+
+  private start(callId: string, msg: Record<string, any>) {
+    const changes = parseFileChanges(msg.changes)
+    this.pending.set(callId, changes)
+    this.streamState.pushToolCall(callId, PATCH_TOOL_NAME, {
+      autoApproved: msg.auto_approved === true,
+      changes: changes.map(({ path, kind, movePath }) => ({ path, kind, movePath })),
+    })
+    return changes
+  }
+}
+
+/**
+ * Accepts both file change encodings Codex has used:
+ * `{ "add": { content } }` and `{ "type": "add", content }`.
+ */
+export function parseFileChanges(value: unknown): FileChange[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return []
+  const changes: FileChange[] = []
+  for (const [path, raw] of Object.entries(value as Record<string, any>)) {
+    if (!raw || typeof raw !== "object") continue
+    const kind = typeof raw.type === "string" ? raw.type : Object.keys(raw)[0]
+    const body = typeof raw.type === "string" ? raw : raw[kind ?? ""]
+    if (!body || typeof body !== "object") continue
+
+    if (kind === "add") {
+      changes.push({ path, kind, diff: contentDiff(path, String(body.content ?? ""), "+") })
+    } else if (kind === "delete") {
+      changes.push({ path, kind, diff: contentDiff(path, String(body.content ?? ""), "-") })
+    } else if (kind === "update") {
+      const movePath = typeof body.move_path === "string" ? body.move_path : undefined
+      changes.push({
+        path,
+        kind,
+        ...(movePath ? { movePath } : {}),
+        diff: typeof body.unified_diff === "string" ? body.unified_diff : "",
+      })
+    }
+  }
+  return changes
+}
+
+function contentDiff(path: string, content: string, sign: "+" | "-") {
+  const lines = content.endsWith("\n") ? content.slice(0, -1).split("\n") : content.split("\n")
+  const count = content ? lines.length : 0
+  const header =
+    sign === "+"
+      ? `--- /dev/null\n+++ b/${path}\n@@ -0,0 +1,${count} @@`
+      : `--- a/${path}\n+++ /dev/null\n@@ -1,${count} +0,0 @@`
+  return content ? `${header}\n${lines.map((line) => `${sign}${line}`).join("\n")}\n` : `${header}\n`
+}
+
+export function formatCommand(argv: string[]) {
+  return argv.map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`)).join(" ")
+}
+
+/** Codex reports durations as `{ secs, nanos }`, milliseconds, or strings like "1.5s" / "120ms". */
+export function parseDuration(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value
+  if (value && typeof value === "object") {
+    const { secs, nanos } = value as { secs?: unknown; nanos?: unknown }
+    if (typeof secs === "number") {
+      return Math.round(secs * 1000 + (typeof nanos === "number" ? nanos / 1e6 : 0))
+    }
+  }
+  if (typeof value === "string") {
+    const match = /^([\d.]+)\s*(ms|s)?$/.exec(value.trim())
+    if (match) {
+      const amount = Number.parseFloat(match[1]!)
+      return match[2] === "ms" ? amount : Math.round(amount * 1000)
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,81 @@
+import type { JsonSchema, JsonValue } from "./types"
+
+export type PreparedToolArguments = {
+  args: Record<string, JsonValue>
+  /** Top-level keys the schema does not know, removed from `args`. */
+  dropped: string[]
+  /** Violations of the schema, as `path: problem`. */
+  errors: string[]
+}
+
+/**
+ * Checks tool arguments against the tool's input schema before they are sent.
+ * Keys the schema does not declare are dropped rather than rejected, so a
+ * parameter Codex removed degrades to a warning instead of a failed call.
+ */
+export function prepareToolArguments(schema: JsonSchema, args: Record<string, JsonValue>): PreparedToolArguments {
+  const properties = schema.properties
+  const dropped =
+    properties && schema.additionalProperties !== true && typeof schema.additionalProperties !== "object"
+      ? Object.keys(args).filter((key) => !(key in properties))
+      : []
+  const kept = Object.fromEntries(Object.entries(args).filter(([key]) => !dropped.includes(key)))
+  const errors: string[] = []
+  validate(schema, kept, "arguments", errors, false)
+  return { args: kept, dropped, errors }
+}
+
+function validate(schema: JsonSchema, value: JsonValue, at: string, errors: string[], strict = true) {
+  const types = schema.type === undefined ? undefined : Array.isArray(schema.type) ? schema.type : [schema.type]
+  if (types && !types.some((type) => matchesType(type, value))) {
+    errors.push(`${at}: expected ${types.join(" | ")}, got ${describe(value)}`)
+    return
+  }
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${at}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`)
+    return
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) value.forEach((item, index) => validate(schema.items!, item, `${at}[${index}]`, errors))
+    return
+  }
+  if (value === null || typeof value !== "object") return
+
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) errors.push(`${at}.${key}: required`)
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const property = schema.properties?.[key]
+    if (property) {
+      validate(property, item, `${at}.${key}`, errors)
+    } else if (strict && schema.properties && schema.additionalProperties === false) {
+      errors.push(`${at}.${key}: not allowed`)
+    }
+  }
+}
+
+function matchesType(type: string, value: JsonValue) {
+  switch (type) {
+    case "string":
+    case "boolean":
+      return typeof value === type
+    case "number":
+      return typeof value === "number"
+    case "integer":
+      return Number.isInteger(value)
+    case "null":
+      return value === null
+    case "array":
+      return Array.isArray(value)
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value)
+    default:
+      return true
+  }
+}
+
+function describe(value: JsonValue) {
+  if (value === null) return "null"
+  return Array.isArray(value) ? "array" : typeof value
+}
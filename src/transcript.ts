@@ -0,0 +1,191 @@
+import type { LanguageModelV2Prompt, LanguageModelV2ToolResultOutput } from "@ai-sdk/provider"
+import type {
+  CodexProviderOptions,
+  CodexTranscriptBlock,
+  CodexTranscriptRenderer,
+  CodexTranscriptTurn,
+} from "./types"
+
+export const DEFAULT_HISTORY_CONTEXT_SHARE = 0.5
+/** Part of the history budget held back for the summary of the turns left out. */
+export const HISTORY_SUMMARY_SHARE = 0.2
+
+const ROLE_LABELS: Record<CodexTranscriptTurn["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  tool: "Tool",
+}
+
+/**
+ * The non-system messages of a prompt as transcript turns, in their original
+ * order. Reasoning is left out, and messages with nothing to show are skipped.
+ */
+export function toTranscriptTurns(prompt: LanguageModelV2Prompt): CodexTranscriptTurn[] {
+  const turns: CodexTranscriptTurn[] = []
+  for (const message of prompt) {
+    if (message.role === "system") continue
+    const blocks: CodexTranscriptBlock[] = []
+    // Callers outside the AI SDK may send a message's content as a plain string, as `extractTextFromMessage` allows.
+    const content: unknown = message.content
+    if (typeof content === "string") {
+      const text = content.trim()
+      if (text) turns.push({ role: message.role, blocks: [{ type: "text", text }] })
+      continue
+    }
+    for (const part of message.content) {
+      switch (part.type) {
+        case "text": {
+          const text = part.text.trim()
+          if (text) blocks.push({ type: "text", text })
+          break
+        }
+        case "file":
+          blocks.push({
+            type: "file",
+            mediaType: part.mediaType,
+            ...(part.filename ? { filename: part.filename } : {}),
+          })
+          break
+        case "tool-call":
+          blocks.push({ type: "tool-call", toolCallId: part.toolCallId, toolName: part.toolName, input: part.input })
+          break
+        case "tool-result":
+          blocks.push({
+            type: "tool-result",
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            output: formatToolOutput(part.output),
+            isError: part.output?.type === "error-text" || part.output?.type === "error-json",
+          })
+          break
+      }
+    }
+    if (blocks.length) turns.push({ role: message.role, blocks })
+  }
+  return turns
+}
+
+/**
+ * Renders turns as a role-labelled transcript, oldest first. A lone user turn
+ * is sent as it is, so a fresh request reads the same as it was typed.
+ */
+export const renderTranscript: CodexTranscriptRenderer = (turns) => {
+  const [first] = turns
+  if (turns.length === 1 && first?.role === "user" && first.blocks.every((block) => block.type === "text")) {
+    return first.blocks.map((block) => (block as { text: string }).text).join("\n\n")
+  }
+  const rendered = turns.map((turn) => `## ${ROLE_LABELS[turn.role]}\n${turn.blocks.map(renderBlock).join("\n\n")}`)
+  return ["The conversation so far, oldest first. Continue from the last message.", ...rendered].join("\n\n")
+}
+
+/** A rough token count, at about four characters per token; close enough to size a budget. */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * The token budget for the flattened history, or undefined when it is not
+ * limited: switched off, or neither `maxTokens` nor the model's context window is known.
+ */
+export function resolveHistoryBudget(options: CodexProviderOptions) {
+  const limit = options.historyLimit
+  if (limit === false) return undefined
+  if (limit?.maxTokens !== undefined) return limit.maxTokens
+  if (options.contextWindow === undefined) return undefined
+  return Math.floor(options.contextWindow * (limit?.contextShare ?? DEFAULT_HISTORY_CONTEXT_SHARE))
+}
+
+export type FittedTranscript = {
+  /** The rendered turns that were kept. */
+  text: string
+  kept: CodexTranscriptTurn[]
+  /** The oldest turns, left out to fit. */
+  dropped: CodexTranscriptTurn[]
+}
+
+/**
+ * Renders the latest turns that fit in `maxTokens`, leaving out the oldest
+ * first. The last turn is always kept, even when it alone is over budget, and
+ * the kept history never opens with results of tool calls that were left out.
+ * With `reserveSummary` part of the budget is held back for a summary of them.
+ */
+export function fitTranscript(
+  turns: CodexTranscriptTurn[],
+  render: CodexTranscriptRenderer,
+  maxTokens?: number,
+  reserveSummary = false,
+): FittedTranscript {
+  const full = render(turns)
+  if (maxTokens === undefined || estimateTokens(full) <= maxTokens || turns.length < 2) {
+    return { text: full, kept: turns, dropped: [] }
+  }
+  const budget = reserveSummary ? Math.floor(maxTokens * (1 - HISTORY_SUMMARY_SHARE)) : maxTokens
+  // Renders grow with the number of turns, so the first turn to keep is found by bisection.
+  let low = 1
+  let high = turns.length - 1
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2)
+    if (estimateTokens(render(turns.slice(middle))) <= budget) high = middle
+    else low = middle + 1
+  }
+  let start = low
+  while (start < turns.length - 1 && turns[start]!.role === "tool") start += 1
+  const kept = turns.slice(start)
+  return { text: render(kept), kept, dropped: turns.slice(0, start) }
+}
+
+/** Asks Codex for a summary of the turns left out, in about `maxTokens`. */
+export function historySummaryPrompt(transcript: string, maxTokens: number) {
+  const words = Math.max(50, Math.floor(maxTokens * 0.75))
+  return [
+    `Summarise the earlier part of a conversation below in at most ${words} words.`,
+    "Keep decisions, open tasks, file paths and names; leave out pleasantries. Do not run commands or edit files.",
+    transcript,
+  ].join("\n\n")
+}
+
+/** The note that stands in for the turns left out of the prompt. */
+export function elidedHistoryNote(dropped: number, summary?: string) {
+  const messages = `${dropped} earlier message${dropped === 1 ? "" : "s"}`
+  return summary
+    ? `Summary of ${messages}, left out to fit the context window:\n${summary}`
+    : `(${messages} left out to fit the context window.)`
+}
+
+function renderBlock(block: CodexTranscriptBlock) {
+  switch (block.type) {
+    case "text":
+      return block.text
+    case "file":
+      return `[Attached file${block.filename ? ` ${block.filename}` : ""} (${block.mediaType})]`
+    case "tool-call":
+      return `Called \`${block.toolName}\` (${block.toolCallId}) with:\n${formatJson(block.input)}`
+    case "tool-result":
+      return `${block.isError ? "Error from" : "Result of"} \`${block.toolName}\` (${block.toolCallId}):\n${block.output}`
+  }
+}
+
+function formatToolOutput(output: LanguageModelV2ToolResultOutput | undefined) {
+  if (!output) return ""
+  switch (output.type) {
+    case "text":
+    case "error-text":
+      return output.value
+    case "json":
+    case "error-json":
+      return formatJson(output.value)
+    case "content":
+      return output.value
+        .map((item) => (item.type === "text" ? item.text : `[${item.mediaType} content]`))
+        .join("\n")
+  }
+}
+
+function formatJson(value: unknown) {
+  if (typeof value === "string") return value
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value)
+  } catch {
+    return String(value)
+  }
+}
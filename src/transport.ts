@@ -0,0 +1,190 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process"
+import readline from "readline"
+import { CodexBinaryNotFoundError, CodexProtocolError, CodexSpawnError } from "./errors"
+import type { JsonRpcMessage, JsonValue } from "./types"
+
+export type TransportCloseInfo = {
+  /** Exit code and signal of a local process; null for remote transports. */
+  code: number | null
+  signal: NodeJS.Signals | null
+  /** Set when the transport failed rather than the server going away. */
+  error?: Error
+  /** Whatever the server printed on the way out (stderr, a close reason). */
+  diagnostics?: string
+}
+
+/**
+ * Carries JSON-RPC messages between `CodexMCPClient` and one MCP server.
+ * `onClose` fires once, when the connection is gone for good; it does not fire
+ * after `close()` was called.
+ */
+export interface Transport {
+  send(message: JsonRpcMessage): void
+  onMessage(handler: (message: JsonValue) => void): () => void
+  onClose(handler: (info: TransportCloseInfo) => void): () => void
+  /** `force` skips any graceful shutdown (SIGKILL instead of SIGTERM). */
+  close(options?: { force?: boolean }): void
+  /** Called once `initialize` settled on a protocol version, for transports that send it along. */
+  setProtocolVersion?(version: string): void
+  /** Lets the connection keep the host's event loop alive again. */
+  ref?(): void
+  /** Stops an idle connection from holding the host's event loop open. */
+  unref?(): void
+}
+
+/**
+ * Base for transports: handler bookkeeping and the close-once guarantee.
+ */
+export abstract class BaseTransport implements Transport {
+  private readonly messageHandlers = new Set<(message: JsonValue) => void>()
+  private readonly closeHandlers = new Set<(info: TransportCloseInfo) => void>()
+  protected closed = false
+
+  abstract send(message: JsonRpcMessage): void
+  protected abstract shutdown(force: boolean): void
+
+  onMessage(handler: (message: JsonValue) => void) {
+    this.messageHandlers.add(handler)
+    return () => this.messageHandlers.delete(handler)
+  }
+
+  onClose(handler: (info: TransportCloseInfo) => void) {
+    this.closeHandlers.add(handler)
+    return () => this.closeHandlers.delete(handler)
+  }
+
+  close(options: { force?: boolean } = {}) {
+    if (this.closed) return
+    this.closed = true
+    this.shutdown(options.force ?? false)
+  }
+
+  protected deliver(message: JsonValue) {
+    if (this.closed) return
+    this.messageHandlers.forEach((handler) => handler(message))
+  }
+
+  /** Parses one serialized message; an unparsable one ends the connection. */
+  protected deliverRaw(raw: string) {
+    if (!raw.trim()) return
+    let message: JsonValue
+    try {
+      message = JSON.parse(raw)
+    } catch (error) {
+      this.fail(
+        new CodexProtocolError({
+          message: `Failed to parse MCP message: ${error instanceof Error ? error.message : String(error)}`,
+          cause: error,
+          data: { line: raw },
+        }),
+      )
+      return
+    }
+    this.deliver(message)
+  }
+
+  protected fail(error: Error, diagnostics?: string) {
+    this.finish({ code: null, signal: null, error, diagnostics })
+    this.shutdown(true)
+  }
+
+  protected finish(info: TransportCloseInfo) {
+    if (this.closed) return
+    this.closed = true
+    this.closeHandlers.forEach((handler) => handler(info))
+  }
+}
+
+/** Spawns `codex mcp-server` and speaks newline-delimited JSON over its stdio. */
+export class StdioTransport extends BaseTransport {
+  private readonly child: ChildProcessWithoutNullStreams
+  private readonly stdout: readline.Interface
+  private readonly stderrChunks: string[] = []
+
+  constructor(
+    command = "codex",
+    args: string[] = ["mcp-server"],
+    options: { cwd?: string; env?: Record<string, string> } = {},
+  ) {
+    super()
+    this.child = spawn(command, args, {
+      cwd: options.cwd,
+      env: {
+        ...process.env,
+        ...options.env,
+      },
+      stdio: ["pipe", "pipe", "pipe"],
+    })
+
+    this.child.once("error", (error: NodeJS.ErrnoException) => {
+      this.finish({
+        code: null,
+        signal: null,
+        error:
+          error.code === "ENOENT"
+            ? new CodexBinaryNotFoundError({ command, cause: error })
+            : new CodexSpawnError({ command, cause: error }),
+      })
+    })
+
+    this.child.on("exit", (code, signal) => {
+      this.finish({ code, signal, diagnostics: this.stderrChunks.join("") })
+    })
+
+    if (!this.child.stdin) {
+      throw new CodexSpawnError({ command, cause: new Error("stdin not available") })
+    }
+
+    if (this.child.stderr) {
+      this.child.stderr.on("data", (chunk) => {
+        this.stderrChunks.push(String(chunk))
+      })
+    }
+
+    this.stdout = readline.createInterface({
+      input: this.child.stdout,
+      crlfDelay: Infinity,
+    })
+    this.stdout.on("line", (line) => {
+      this.deliverRaw(line)
+    })
+  }
+
+  send(message: JsonRpcMessage) {
+    if (this.closed) return
+    this.child.stdin.write(JSON.stringify(message) + "\n")
+  }
+
+  ref() {
+    this.child.ref()
+    for (const stream of [this.child.stdin, this.child.stdout, this.child.stderr]) {
+      ;(stream as { ref?: () => void }).ref?.()
+    }
+  }
+
+  unref() {
+    this.child.unref()
+    for (const stream of [this.child.stdin, this.child.stdout, this.child.stderr]) {
+      ;(stream as { unref?: () => void }).unref?.()
+    }
+  }
+
+  /** What the process printed on stderr so far. */
+  get stderr() {
+    return this.stderrChunks.join("")
+  }
+
+  protected shutdown(force: boolean) {
+    this.stdout.close()
+    if (force) {
+      this.child.kill("SIGKILL")
+      return
+    }
+    try {
+      this.child.stdin?.end()
+    } catch {
+      // ignore
+    }
+    this.child.kill("SIGTERM")
+  }
+}
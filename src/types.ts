@@ -1,3 +1,5 @@
+import type { CodexErrorKind } from "./errors"
+
 type JsonPrimitive = string | number | boolean | null
 
 export type JsonValue = JsonPrimitive | JsonValue[] | { [key: string]: JsonValue }
@@ -15,6 +17,13 @@ export type JsonRpcNotification = {
   params?: JsonValue
 }
 
+export type JsonRpcServerRequest = {
+  jsonrpc: string
+  id: number | string
+  method: string
+  params?: JsonValue
+}
+
 export type JsonRpcResponse = {
   jsonrpc: string
   id: number | string
@@ -26,23 +35,197 @@ export type JsonRpcResponse = {
   }
 }
 
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse
+
+/** The subset of JSON Schema that MCP tool input schemas use. */
+export type JsonSchema = {
+  type?: string | string[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  enum?: JsonValue[]
+  items?: JsonSchema
+  additionalProperties?: boolean | JsonSchema
+  description?: string
+}
+
+/** A tool as announced by the server in `tools/list`. */
+export type McpTool = {
+  name: string
+  description?: string
+  inputSchema: JsonSchema
+}
+
 export type CodexClientHooks = {
   onSend?: (payload: JsonValue) => void
   onReceive?: (payload: JsonValue) => void
 }
 
+/** Aborts when the server cancels the request with `notifications/cancelled`. */
+export type CodexRequestHandler = (
+  params: JsonValue | undefined,
+  request: JsonRpcServerRequest,
+  signal: AbortSignal,
+) => JsonValue | undefined | Promise<JsonValue | undefined>
+
+/** A directory Codex may work in, as answered to `roots/list`. */
+export type McpRoot = {
+  uri: string
+  name?: string
+}
+
+/** A `notifications/progress` update for a `tools/call`. */
+export type CodexProgress = {
+  progress: number
+  total?: number
+  message?: string
+}
+
+export type CodexApprovalDecision = "approved" | "approved_for_session" | "denied" | "abort"
+
+export type CodexApprovalRequest = {
+  kind: "exec" | "patch"
+  message: string
+  callId?: string
+  /** Id of the `tools/call` request whose turn asked for approval. */
+  toolCallRequestId?: string
+  command?: string[]
+  cwd?: string
+  reason?: string
+  changes?: JsonValue
+  raw: JsonValue
+}
+
+export type CodexApprovalHandler = (
+  request: CodexApprovalRequest,
+  context: { abortSignal?: AbortSignal },
+) => CodexApprovalDecision | Promise<CodexApprovalDecision>
+
+/** One piece of a turn in the flattened history sent to a new Codex conversation. */
+export type CodexTranscriptBlock =
+  | { type: "text"; text: string }
+  | { type: "file"; mediaType: string; filename?: string }
+  | { type: "tool-call"; toolCallId: string; toolName: string; input: unknown }
+  | { type: "tool-result"; toolCallId: string; toolName: string; output: string; isError: boolean }
+
+export type CodexTranscriptTurn = {
+  role: "user" | "assistant" | "tool"
+  blocks: CodexTranscriptBlock[]
+}
+
+/** Turns the non-system messages of a request, oldest first, into the prompt text. */
+export type CodexTranscriptRenderer = (turns: CodexTranscriptTurn[]) => string
+
+/** How much of the flattened history a new Codex conversation gets. */
+export type CodexHistoryLimit = {
+  /** Token budget for the history; overrides `contextShare` (default: none). */
+  maxTokens?: number
+  /** Share of `contextWindow` the history may take (default: 0.5). */
+  contextShare?: number
+  /** What happens to the oldest turns that do not fit: left out, or summarised by Codex first (default: "drop"). */
+  strategy?: "drop" | "summarize"
+}
+
+/** How a Codex turn that fails with a transient error is tried again. */
+export type CodexRetryPolicy = {
+  /** Attempts per turn, including the first (default: 3). */
+  maxAttempts?: number
+  /** Delay before the first retry, in milliseconds (default: 1000). */
+  initialDelayMs?: number
+  /** Upper bound of the backoff delay, in milliseconds (default: 30000). */
+  maxDelayMs?: number
+  /** Growth of the delay per attempt (default: 2). */
+  backoffFactor?: number
+  /** Random spread of each delay as a fraction of it (default: 0.2). */
+  jitter?: number
+  /** Error kinds to retry; by default every error marked `isRetryable`. */
+  retryOn?: CodexErrorKind[]
+}
+
+/** How the provider reaches the Codex MCP server. */
+export type CodexTransportOptions =
+  /** Spawn `binary` with `args` and talk over its stdio (the default). */
+  | { type: "stdio" }
+  /** An MCP endpoint speaking Streamable HTTP, e.g. `codex mcp-server` behind a proxy in a dev container. */
+  | { type: "http"; url: string; headers?: Record<string, string> }
+  | { type: "websocket"; url: string; headers?: Record<string, string>; protocols?: string[] }
+  /** Plays back a cassette written with `recordDir`; `speed` divides the recorded delays (default: 1). */
+  | { type: "replay"; cassette: string; speed?: number }
+
+/** How pooled `codex mcp-server` processes are restarted after they crash. */
+export type CodexSupervisorOptions = {
+  /** Delay before the first restart, doubled for every recent crash, in milliseconds (default: 500). */
+  restartDelayMs?: number
+  /** Upper bound of the restart delay, in milliseconds (default: 30000). */
+  maxRestartDelayMs?: number
+  /** Crashes within `crashLoopWindowMs` that stop restarts (default: 5). */
+  crashLoopThreshold?: number
+  crashLoopWindowMs?: number
+  /** How long restarts stay stopped after a crash loop, in milliseconds (default: 300000). */
+  circuitResetMs?: number
+}
+
 export type CodexProviderOptions = {
+  /** Where the MCP server lives (default: spawned locally over stdio). */
+  transport?: CodexTransportOptions
+  /** Write every JSON-RPC message of each connection to a JSONL cassette in this directory. */
+  recordDir?: string
+  /** Codex CLI to spawn: a path, or a command name looked up on `PATH` and common install locations (default: "codex"). */
   binary?: string
+  /** Check `binary --version` against the supported range before the first spawn (default: true). */
+  versionCheck?: boolean
   args?: string[]
   env?: Record<string, string>
   spawnCwd?: string
+  /** Share warm `codex mcp-server` processes between calls (default: true). */
+  reuseProcess?: boolean
+  /** How long an unused pooled process stays alive, in milliseconds (default: 300000). */
+  processIdleTtl?: number
+  /** Restart pooled processes that crash; `false` leaves them to be respawned on the next call. */
+  supervisor?: CodexSupervisorOptions | false
+  /** How long the MCP handshake may take before the process is given up on, in milliseconds (default: 30000). */
+  initializeTimeout?: number
+  /** Cancel a Codex turn that sends no notification for this long, in milliseconds (default: 300000). */
+  idleTimeout?: number
+  /** Cancel a Codex turn that runs longer than this, in milliseconds (default: none). */
+  totalTimeout?: number
+  /** Retry turns that fail with transient errors; `false` disables retries. */
+  retry?: CodexRetryPolicy | false
+  /** Fail calls with `CodexInvalidOptionsError` on invalid options instead of warning (default: false). */
+  strictOptions?: boolean
   cwd?: string
+  /** Directories besides `cwd` that Codex may work in, advertised as MCP roots. */
+  additionalRoots?: string[]
   approvalPolicy?: "untrusted" | "on-failure" | "on-request" | "never"
   sandboxMode?: "read-only" | "workspace-write" | "danger-full-access"
+  /** Decides exec/apply-patch approval requests; takes precedence over `approvalDecision`. */
+  approvalHandler?: CodexApprovalHandler
+  /** Answer given to approval requests when no handler is configured (default: "deny"). */
+  approvalDecision?: "approve" | "approve-for-session" | "deny"
   model?: string
+  /**
+   * Where system messages go: Codex's `developer-instructions` next to its own
+   * instructions, `base-instructions` in place of them, or the user prompt (default: "developer").
+   */
+  systemPromptMode?: "developer" | "replace" | "inline"
   reasoningEffort?: "minimal" | "low" | "medium" | "high"
+  /** Continue the Codex conversation with `codex-reply` instead of resending the history (default: true). */
+  reuseConversation?: boolean
+  /** The opencode session of the call; the plugin sets it so conversations are only continued within their session. */
+  sessionId?: string
+  /** The model's context window in tokens; opencode's `limit.context` for the model. */
+  contextWindow?: number
+  /** Keeps the flattened history within a token budget, or `false` to always send all of it. */
+  historyLimit?: CodexHistoryLimit | false
+  /** Renders the history when a new Codex conversation starts (default: role-labelled turns in order). */
+  transcriptRenderer?: CodexTranscriptRenderer
+  /** Let Codex call the function tools of the opencode request through a local MCP bridge (default: true). */
+  bridgeTools?: boolean
+  /** How long a Codex turn waits for opencode to return a bridged tool result, in milliseconds (default: 600000). */
+  toolResultTimeout?: number
   streamCommandOutput?: boolean
   streamReasoning?: boolean
+  /** Which reasoning Codex streams: its summaries, the raw chain of thought, or nothing (default: "summary"). */
+  reasoningMode?: "summary" | "raw" | "none"
   includeMessageSource?: boolean
   clientInfo?: {
     name?: string
@@ -51,7 +234,25 @@ export type CodexProviderOptions = {
 }
 
 export const JSONRPC_VERSION = "2.0"
-export const MCP_PROTOCOL_VERSION = "2025-06-18"
+/** MCP revisions the client and the tool bridge speak, newest first. */
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"] as const
+export const MCP_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0]
+/** The first revision with `elicitation/create`, which Codex uses for approvals. */
+export const ELICITATION_PROTOCOL_VERSION = "2025-06-18"
+
+/** What the `initialize` handshake settled on. */
+export type McpServerInfo = {
+  protocolVersion: string
+  capabilities: {
+    tools?: { listChanged?: boolean }
+    logging?: Record<string, never>
+    prompts?: Record<string, unknown>
+    resources?: Record<string, unknown>
+    [capability: string]: unknown
+  }
+  serverInfo?: { name: string; version: string; title?: string }
+  instructions?: string
+}
 
 export function toRequestKey(id: number | string) {
   return typeof id === "string" ? id : String(id)
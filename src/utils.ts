@@ -1,7 +1,13 @@
-import type { LanguageModelV2CallOptions } from "@ai-sdk/provider"
-import type { CodexProviderOptions, JsonValue } from "./types"
+import type { LanguageModelV2CallOptions, LanguageModelV2Prompt, LanguageModelV2Usage } from "@ai-sdk/provider"
+import path from "node:path"
+import { pathToFileURL } from "node:url"
+import { CodexInvalidOptionsError } from "./errors"
+import { APPROVAL_POLICIES, SANDBOX_MODES } from "./optionsSchema"
+import { toTranscriptTurns } from "./transcript"
+import type { CodexProviderOptions, JsonValue, McpRoot } from "./types"
 
-export const DEFAULT_REASONING: CodexProviderOptions["reasoningEffort"] = "minimal"
+export const DEFAULT_REASONING: NonNullable<CodexProviderOptions["reasoningEffort"]> = "minimal"
+export const DEFAULT_SYSTEM_PROMPT_MODE: NonNullable<CodexProviderOptions["systemPromptMode"]> = "developer"
 
 export function extractTextFromResult(result: JsonValue): string {
   if (result && typeof result === "object" && "content" in result) {
@@ -27,32 +33,97 @@ export function extractTextFromResult(result: JsonValue): string {
   return ""
 }
 
-export function mapApprovalPolicy(policy: CodexProviderOptions["approvalPolicy"]) {
-  switch (policy) {
-    case "untrusted":
-      return "untrusted"
-    case "on-failure":
-      return "on-failure"
-    case "never":
-      return "never"
-    case "on-request":
-    default:
-      return "on-request"
+export function extractConversationId(result: JsonValue): string | undefined {
+  if (!result || typeof result !== "object" || Array.isArray(result)) return undefined
+  const structured = result["structuredContent"]
+  if (structured && typeof structured === "object" && !Array.isArray(structured)) {
+    const id = structured["conversationId"] ?? structured["sessionId"]
+    if (typeof id === "string" && id) return id
   }
+  return undefined
 }
 
-export function mapSandboxMode(mode: CodexProviderOptions["sandboxMode"]) {
-  switch (mode) {
-    case "read-only":
-      return "read-only"
-    case "danger-full-access":
-      return "danger-full-access"
-    case "workspace-write":
-    default:
-      return "workspace-write"
+/** The id of the `tools/call` request a Codex notification belongs to, from its `_meta`. */
+export function extractMetaRequestId(params: JsonValue | undefined): number | undefined {
+  if (!params || typeof params !== "object" || Array.isArray(params)) return undefined
+  const meta = params["_meta"]
+  if (!meta || typeof meta !== "object" || Array.isArray(meta)) return undefined
+  const raw = meta["requestId"]
+  const id = typeof raw === "number" ? raw : typeof raw === "string" ? Number.parseInt(raw, 10) : undefined
+  return Number.isFinite(id) ? id : undefined
+}
+
+/**
+ * Reads the usage of the latest model request from a Codex `token_count` event.
+ * Newer Codex versions nest it under `info.last_token_usage`; older ones put the
+ * counters on the event itself.
+ */
+export function parseTokenUsage(msg: Record<string, any>): LanguageModelV2Usage | undefined {
+  const info = msg.info && typeof msg.info === "object" ? msg.info : undefined
+  const raw = info ? info.last_token_usage : msg
+  if (!raw || typeof raw !== "object") return undefined
+
+  const count = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : undefined)
+  const inputTokens = count(raw.input_tokens)
+  const outputTokens = count(raw.output_tokens)
+  if (inputTokens === undefined && outputTokens === undefined) return undefined
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: count(raw.total_tokens) ?? (inputTokens ?? 0) + (outputTokens ?? 0),
+    reasoningTokens: count(raw.reasoning_output_tokens),
+    cachedInputTokens: count(raw.cached_input_tokens),
+  }
+}
+
+export function addUsage(a: LanguageModelV2Usage, b: LanguageModelV2Usage): LanguageModelV2Usage {
+  const sum = (x: number | undefined, y: number | undefined) =>
+    x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0)
+  return {
+    inputTokens: sum(a.inputTokens, b.inputTokens),
+    outputTokens: sum(a.outputTokens, b.outputTokens),
+    totalTokens: sum(a.totalTokens, b.totalTokens),
+    reasoningTokens: sum(a.reasoningTokens, b.reasoningTokens),
+    cachedInputTokens: sum(a.cachedInputTokens, b.cachedInputTokens),
   }
 }
 
+export function resolveReasoningMode(options: CodexProviderOptions): NonNullable<CodexProviderOptions["reasoningMode"]> {
+  if (options.reasoningMode) return options.reasoningMode
+  return options.streamReasoning === false ? "none" : "summary"
+}
+
+export const DEFAULT_APPROVAL_POLICY = "on-request"
+export const DEFAULT_SANDBOX_MODE = "workspace-write"
+
+/** Options are validated before they get here, so an unknown value is a bug, not a reason to guess. */
+export function mapApprovalPolicy(policy: CodexProviderOptions["approvalPolicy"]) {
+  if (policy === undefined) return DEFAULT_APPROVAL_POLICY
+  if ((APPROVAL_POLICIES as readonly string[]).includes(policy)) return policy
+  throw new CodexInvalidOptionsError([
+    {
+      key: "approvalPolicy",
+      received: policy,
+      expected: APPROVAL_POLICIES.join(" | "),
+      message: `Invalid codex option "approvalPolicy": received ${JSON.stringify(policy)}`,
+    },
+  ])
+}
+
+export function mapSandboxMode(mode: CodexProviderOptions["sandboxMode"]) {
+  if (mode === undefined) return DEFAULT_SANDBOX_MODE
+  if ((SANDBOX_MODES as readonly string[]).includes(mode)) return mode
+  throw new CodexInvalidOptionsError([
+    {
+      key: "sandboxMode",
+      received: mode,
+      expected: SANDBOX_MODES.join(" | "),
+      message: `Invalid codex option "sandboxMode": received ${JSON.stringify(mode)}`,
+    },
+  ])
+}
+
 export function extractTextFromMessage(message: any) {
   if (typeof message.content === "string") {
     return message.content.trim()
@@ -83,7 +154,6 @@ export function extractTextFromParts(parts: any[]) {
 export function buildConversationPayload(messages: LanguageModelV2CallOptions["prompt"]) {
   const systemSegments: string[] = []
   const userSegments: string[] = []
-  const assistantSegments: string[] = []
 
   const iterable = Array.isArray(messages) ? (messages as unknown[]) : []
 
@@ -103,23 +173,16 @@ export function buildConversationPayload(messages: LanguageModelV2CallOptions["p
       continue
     }
 
-    const text = extractTextFromMessage(message as any)
-    if (!text) continue
-
-    if (message.role === "assistant") {
-      assistantSegments.push(text)
-      continue
-    }
     if (message.role === "user") {
-      userSegments.push(text)
-      continue
+      const text = extractTextFromMessage(message as any)
+      if (text) userSegments.push(text)
     }
   }
 
   const baseInstructions = systemSegments.length ? systemSegments.join("\n\n").trim() : undefined
   const userText = userSegments.join("\n\n").trim()
-  const assistantText = assistantSegments.join("\n\n").trim()
-  return { baseInstructions, userText, assistantText }
+  const turns = toTranscriptTurns(iterable as LanguageModelV2Prompt)
+  return { baseInstructions, userText, turns }
 }
 
 export function isLikelyText(value: string): boolean {
@@ -159,4 +222,24 @@ export function sharedPrefixLength(a: string, b: string): number {
     index += 1
   }
   return index
-}
\ No newline at end of file
+}
+
+/** The working directory and any additional directories as MCP roots, without duplicates. */
+export function workspaceRoots(cwd: string, additional: string[] = []): McpRoot[] {
+  const dirs = [...new Set([cwd, ...additional].map((dir) => path.resolve(cwd, dir)))]
+  return dirs.map((dir) => ({ uri: pathToFileURL(dir).href, name: path.basename(dir) || dir }))
+}
+
+/**
+ * Layers option sets, later ones winning key by key. Keys set to undefined do
+ * not override, so a call that leaves an option out keeps the configured one.
+ */
+export function mergeProviderOptions(...layers: (CodexProviderOptions | undefined)[]): CodexProviderOptions {
+  const merged: Record<string, unknown> = {}
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer ?? {})) {
+      if (value !== undefined) merged[key] = value
+    }
+  }
+  return merged as CodexProviderOptions
+}
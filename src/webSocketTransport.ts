@@ -0,0 +1,63 @@
+import { classifyCodexFailure, CodexConnectionError } from "./errors"
+import { BaseTransport } from "./transport"
+import type { JsonRpcMessage } from "./types"
+
+/**
+ * Talks to an MCP server over a WebSocket, one JSON-RPC message per text frame.
+ * Messages sent before the socket opens are queued.
+ */
+export class WebSocketTransport extends BaseTransport {
+  private readonly socket: WebSocket
+  private readonly outbox: string[] = []
+
+  constructor(
+    private readonly url: string,
+    options: { headers?: Record<string, string>; protocols?: string[] } = {},
+  ) {
+    super()
+    if (typeof globalThis.WebSocket !== "function") {
+      throw new CodexConnectionError({ url, cause: new Error("WebSocket is not available in this runtime") })
+    }
+    // Bun and undici accept headers in the second argument; browsers only take protocols.
+    this.socket = options.headers
+      ? new WebSocket(url, { headers: options.headers, protocols: options.protocols } as unknown as string[])
+      : new WebSocket(url, options.protocols)
+
+    this.socket.addEventListener("open", () => {
+      for (const data of this.outbox.splice(0)) this.socket.send(data)
+    })
+    this.socket.addEventListener("message", (event) => {
+      const data = event.data
+      this.deliverRaw(typeof data === "string" ? data : new TextDecoder().decode(data as ArrayBuffer))
+    })
+    this.socket.addEventListener("error", () => {
+      this.fail(new CodexConnectionError({ url }))
+    })
+    this.socket.addEventListener("close", (event) => {
+      const reason = event.reason || `WebSocket closed with code ${event.code}`
+      this.finish({
+        code: null,
+        signal: null,
+        error:
+          classifyCodexFailure(event.reason) ??
+          new CodexConnectionError({ url, message: "Lost the connection to", cause: new Error(reason) }),
+      })
+    })
+  }
+
+  send(message: JsonRpcMessage) {
+    if (this.closed) return
+    const data = JSON.stringify(message)
+    if (this.socket.readyState === WebSocket.CONNECTING) {
+      this.outbox.push(data)
+      return
+    }
+    this.socket.send(data)
+  }
+
+  protected shutdown() {
+    if (this.socket.readyState === WebSocket.CONNECTING || this.socket.readyState === WebSocket.OPEN) {
+      this.socket.close(1000)
+    }
+  }
+}
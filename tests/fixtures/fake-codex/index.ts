@@ -0,0 +1,72 @@
+import path from "node:path"
+import type { CodexProviderOptions, McpTool } from "../../../src/types"
+
+export type FakeCodexStep = {
+  delayMs?: number
+  event?: Record<string, unknown>
+  approval?: Record<string, unknown>
+  /** Cancel the approval request after this long instead of waiting for the answer. */
+  withdrawAfterMs?: number
+  progress?: { progress: number; total?: number; message?: string }
+  log?: { level: string; logger?: string; data: unknown }
+  cancel?: string
+  result?: string | Record<string, unknown>
+  /** Answer with the arguments of the `tools/call` as JSON text. */
+  echoArguments?: boolean
+  error?: { code: number; message: string; data?: unknown }
+  stderr?: string
+  crash?: number
+  hang?: boolean
+}
+
+export type FakeCodexScenario = {
+  initialize?: { delayMs?: number; hang?: boolean; result?: Record<string, unknown> }
+  /** Answer to `tools/list` (default: the `codex` and `codex-reply` tools of the real server). */
+  tools?: McpTool[]
+  turns?: { steps: FakeCodexStep[] }[]
+}
+
+/** Input schemas as `codex mcp-server` lists them. */
+export const CODEX_TOOLS: McpTool[] = [
+  {
+    name: "codex",
+    inputSchema: {
+      type: "object",
+      properties: {
+        prompt: { type: "string" },
+        model: { type: "string" },
+        profile: { type: "string" },
+        cwd: { type: "string" },
+        "approval-policy": { type: "string", enum: ["untrusted", "on-failure", "on-request", "never"] },
+        sandbox: { type: "string", enum: ["read-only", "workspace-write", "danger-full-access"] },
+        config: { type: "object", additionalProperties: true },
+        "base-instructions": { type: "string" },
+        "developer-instructions": { type: "string" },
+        "include-plan-tool": { type: "boolean" },
+      },
+      required: ["prompt"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "codex-reply",
+    inputSchema: {
+      type: "object",
+      properties: { conversationId: { type: "string" }, prompt: { type: "string" } },
+      required: ["conversationId", "prompt"],
+      additionalProperties: false,
+    },
+  },
+]
+
+export const FAKE_CODEX_SERVER = path.join(import.meta.dir, "server.ts")
+
+/**
+ * Provider options that run the fake server with a bundled scenario (by name,
+ * from `scenarios/`) or an inline one. Each call gets its own process.
+ */
+export function fakeCodex(scenario: string | FakeCodexScenario): CodexProviderOptions {
+  const source =
+    typeof scenario === "string" ? path.join(import.meta.dir, "scenarios", `${scenario}.json`) : JSON.stringify(scenario)
+  return { binary: process.execPath, args: [FAKE_CODEX_SERVER, source], reuseProcess: false }
+}
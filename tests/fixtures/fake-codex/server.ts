@@ -0,0 +1,148 @@
+#!/usr/bin/env bun
+/**
+ * A stand-in for `codex mcp-server` that plays scripted turns.
+ *
+ *   bun tests/fixtures/fake-codex/server.ts <scenario.json | inline JSON>
+ *
+ * Each `tools/call` plays the next turn of the scenario. Steps run in order:
+ *
+ *   { "event": { "type": "agent_message_delta", "delta": "Hi" } }  codex/event tagged with the request id
+ *   { "approval": { "codex_elicitation": "exec-approval", ... } }   elicitation/create; waits for the answer
+ *   { "approval": {...}, "withdrawAfterMs": 50 }                      ...or cancels it after that long
+ *   { "progress": { "progress": 1, "total": 3 } }                    notifications/progress for the call's token
+ *   { "log": { "level": "warning", "data": "..." } }                notifications/message
+ *   { "cancel": "reason" }                                           notifications/cancelled for the call; ends the turn
+ *   { "result": "text" } | { "result": { ...CallToolResult } }       answers the tools/call
+ *   { "echoArguments": true }                                        answers with the call's arguments as JSON text
+ *   { "error": { "code": -32000, "message": "..." } }               answers with a JSON-RPC error
+ *   { "stderr": "..." }                                              writes to stderr
+ *   { "crash": 1 }                                                   exits with that code
+ *   { "hang": true }                                                 stops answering anything, pings included
+ *
+ * Any step may carry `delayMs` to wait before it runs. A turn stops early when
+ * the client cancels it. Every message the server receives is echoed to stderr
+ * as `<< {json}` so tests can inspect what the client sent.
+ */
+import { readFileSync } from "node:fs"
+import readline from "node:readline"
+import { CODEX_TOOLS, type FakeCodexScenario } from "./index"
+
+const source = process.argv[2] ?? "{}"
+const scenario: FakeCodexScenario = JSON.parse(source.trim().startsWith("{") ? source : readFileSync(source, "utf-8"))
+
+let hung = false
+let nextTurn = 0
+let serverRequestId = 0
+const cancelled = new Set<number | string>()
+const awaitingAnswers = new Map<string, (result: unknown) => void>()
+
+const send = (message: Record<string, unknown>) => {
+  if (hung) return
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n")
+}
+const sleep = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function playTurn(id: number | string, params: Record<string, any> = {}) {
+  const turn = scenario.turns?.[nextTurn++] ?? { steps: [{ result: "" }] }
+  const progressToken = params._meta?.progressToken
+  for (const step of turn.steps) {
+    if (step.delayMs) await sleep(step.delayMs)
+    if (cancelled.has(id) || hung) return
+    if (step.event) {
+      send({ method: "codex/event", params: { _meta: { requestId: id }, id: String(id), msg: step.event } })
+    }
+    if (step.progress && progressToken !== undefined) {
+      send({ method: "notifications/progress", params: { progressToken, ...step.progress } })
+    }
+    if (step.log) send({ method: "notifications/message", params: step.log })
+    if (step.cancel !== undefined) {
+      send({ method: "notifications/cancelled", params: { requestId: id, reason: step.cancel } })
+      return
+    }
+    if (step.approval) {
+      const requestId = `fake-${serverRequestId++}`
+      const answer = new Promise((resolve) => awaitingAnswers.set(requestId, resolve))
+      send({
+        id: requestId,
+        method: "elicitation/create",
+        params: { codex_mcp_tool_call_id: String(id), ...step.approval },
+      })
+      if (step.withdrawAfterMs !== undefined) {
+        await sleep(step.withdrawAfterMs)
+        awaitingAnswers.delete(requestId)
+        send({ method: "notifications/cancelled", params: { requestId, reason: "withdrawn" } })
+      } else {
+        await answer
+      }
+    }
+    if (step.stderr) process.stderr.write(step.stderr)
+    if (step.crash !== undefined) process.exit(step.crash)
+    if (step.hang) {
+      hung = true
+      return
+    }
+    if (step.error) {
+      send({ id, error: step.error })
+      return
+    }
+    if (step.echoArguments) {
+      send({ id, result: { content: [{ type: "text", text: JSON.stringify(params.arguments ?? {}) }] } })
+      return
+    }
+    if (step.result !== undefined) {
+      const result =
+        typeof step.result === "string" ? { content: [{ type: "text", text: step.result }] } : step.result
+      send({ id, result })
+      return
+    }
+  }
+}
+
+readline.createInterface({ input: process.stdin, crlfDelay: Infinity }).on("line", async (line) => {
+  if (!line.trim()) return
+  process.stderr.write(`<< ${line}\n`)
+  if (hung) return
+  const message = JSON.parse(line)
+
+  if (message.method === undefined && awaitingAnswers.has(message.id)) {
+    awaitingAnswers.get(message.id)?.(message.result ?? message.error)
+    awaitingAnswers.delete(message.id)
+    return
+  }
+
+  switch (message.method) {
+    case "initialize": {
+      const init = scenario.initialize ?? {}
+      if (init.delayMs) await sleep(init.delayMs)
+      if (init.hang) {
+        hung = true
+        return
+      }
+      send({
+        id: message.id,
+        result: init.result ?? {
+          protocolVersion: message.params?.protocolVersion ?? "2025-06-18",
+          capabilities: { tools: {} },
+          serverInfo: { name: "fake-codex", version: "0.0.0" },
+        },
+      })
+      return
+    }
+    case "ping":
+      send({ id: message.id, result: {} })
+      return
+    case "tools/list":
+      send({ id: message.id, result: { tools: scenario.tools ?? CODEX_TOOLS } })
+      return
+    case "tools/call":
+      void playTurn(message.id, message.params)
+      return
+    case "notifications/cancelled":
+      cancelled.add(message.params?.requestId)
+      return
+    default:
+      if (message.id !== undefined) {
+        send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } })
+      }
+  }
+})
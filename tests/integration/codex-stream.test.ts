@@ -0,0 +1,463 @@
+import { describe, test, expect, spyOn } from "bun:test"
+import type { LanguageModelV2CallOptions, LanguageModelV2StreamPart } from "@ai-sdk/provider"
+import { sharedClientPool } from "../../src/clientPool"
+import { createCodexProvider } from "../../src/codexProvider"
+import { CodexIdleTimeoutError, CodexProcessExitError, CodexUsageLimitError } from "../../src/errors"
+import type { CodexProviderOptions } from "../../src/types"
+import { CODEX_TOOLS, fakeCodex } from "../fixtures/fake-codex"
+
+/**
+ * End-to-end tests of `doStream` against the scripted fake `codex mcp-server`
+ * in tests/fixtures/fake-codex. They need no Codex binary and no network.
+ */
+async function streamScenario(options: CodexProviderOptions, call: Partial<LanguageModelV2CallOptions> = {}) {
+  const model = createCodexProvider().languageModel("gpt-5-codex")
+  const { stream } = await model.doStream({
+    prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+    ...call,
+    providerOptions: { codex: { retry: false, ...options } as any },
+  })
+  const parts: LanguageModelV2StreamPart[] = []
+  const reader = stream.getReader()
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    parts.push(value)
+  }
+  return parts
+}
+
+const deltas = (parts: LanguageModelV2StreamPart[], type: "text-delta" | "reasoning-delta") =>
+  parts.filter((part) => part.type === type).map((part) => (part as { delta: string }).delta)
+
+describe("doStream against the fake Codex server", () => {
+  test("streams text, reasoning and usage", async () => {
+    const parts = await streamScenario(fakeCodex("streaming"))
+
+    expect(deltas(parts, "text-delta").join("")).toBe("Hello, world")
+    expect(deltas(parts, "reasoning-delta")).toEqual(["Looking at the request."])
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      finishReason: "stop",
+      usage: { inputTokens: 120, outputTokens: 30, totalTokens: 150 },
+      providerMetadata: { codex: { contextWindow: 272000 } },
+    })
+  })
+
+  test("maps command runs to tool parts", async () => {
+    const parts = await streamScenario(fakeCodex("exec"))
+
+    expect(parts.find((part) => part.type === "tool-call")).toMatchObject({ toolCallId: "exec-1", toolName: "codex_exec" })
+    expect(parts.find((part) => part.type === "tool-result")).toMatchObject({
+      toolCallId: "exec-1",
+      result: { exitCode: 0, stdout: "README.md\n", durationMs: 2 },
+    })
+    expect(deltas(parts, "text-delta").join("")).toBe("There is a README.")
+  })
+
+  test("answers approval requests with the configured decision", async () => {
+    const parts = await streamScenario({ ...fakeCodex("approval"), approvalDecision: "approve" })
+
+    expect(parts.find((part) => part.type === "tool-call" && part.toolName === "codex_approval")).toBeDefined()
+    expect(parts.find((part) => part.type === "tool-result" && part.toolName === "codex_approval")).toMatchObject({
+      result: { decision: "approved" },
+    })
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "stop" })
+  })
+
+  test("surfaces Codex error events as typed errors", async () => {
+    const parts = await streamScenario(fakeCodex("usage-limit"))
+
+    const error = parts.find((part) => part.type === "error") as { error: unknown } | undefined
+    expect(error?.error).toBeInstanceOf(CodexUsageLimitError)
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "error" })
+  })
+
+  test("fails the stream when the server crashes mid-turn", async () => {
+    const parts = await streamScenario(fakeCodex("crash"))
+
+    expect(deltas(parts, "text-delta")).toEqual(["Partial"])
+    const error = (parts.find((part) => part.type === "error") as { error: CodexProcessExitError }).error
+    expect(error).toBeInstanceOf(CodexProcessExitError)
+    expect(error.message).toContain("panicked")
+  })
+
+  test("gives up on a hung server after the idle timeout", async () => {
+    const parts = await streamScenario({ ...fakeCodex("hang"), idleTimeout: 200 })
+
+    const error = parts.find((part) => part.type === "error") as { error: unknown } | undefined
+    expect(error?.error).toBeInstanceOf(CodexIdleTimeoutError)
+  })
+
+  test("runs inline scenarios", async () => {
+    const parts = await streamScenario(
+      fakeCodex({ turns: [{ steps: [{ event: { type: "agent_message", message: "inline" } }, { result: "inline" }] }] }),
+    )
+    expect(deltas(parts, "text-delta").join("")).toBe("inline")
+  })
+
+  test("reports progress in the finish metadata", async () => {
+    const parts = await streamScenario(
+      fakeCodex({
+        turns: [
+          {
+            steps: [
+              { progress: { progress: 1, total: 2, message: "Reading files" } },
+              { progress: { progress: 2, total: 2 } },
+              { result: "done" },
+            ],
+          },
+        ],
+      }),
+      { includeRawChunks: true },
+    )
+
+    expect(parts.filter((part) => part.type === "raw").map((part) => (part as { rawValue: unknown }).rawValue)).toEqual([
+      { type: "codex.progress", progress: 1, total: 2, message: "Reading files" },
+      { type: "codex.progress", progress: 2, total: 2 },
+    ])
+    expect(parts.at(-1)).toMatchObject({ providerMetadata: { codex: { progress: { progress: 2, total: 2 } } } })
+  })
+
+  test("forwards server warnings to the console", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {})
+    try {
+      await streamScenario(
+        fakeCodex({
+          turns: [{ steps: [{ log: { level: "warning", logger: "rollout", data: "disk almost full" } }, { result: "ok" }] }],
+        }),
+      )
+      expect(warn).toHaveBeenCalledWith("[opencode-codex-provider] codex[rollout] warning: disk almost full")
+    } finally {
+      warn.mockRestore()
+    }
+  })
+
+  test("announces a new working directory to the process it already runs on", async () => {
+    const pooled = { ...fakeCodex({ turns: [{ steps: [{ result: "a" }] }, { steps: [{ result: "b" }] }] }), reuseProcess: true }
+    const debug = spyOn(console, "debug").mockImplementation(() => {})
+    const debugSetting = process.env["OPENCODE_CODEX_PROVIDER_DEBUG"]
+    process.env["OPENCODE_CODEX_PROVIDER_DEBUG"] = "1"
+    try {
+      await streamScenario({ ...pooled, cwd: process.cwd() })
+      const parts = await streamScenario({ ...pooled, cwd: `${process.cwd()}/tests` })
+
+      expect(deltas(parts, "text-delta").join("")).toBe("b")
+      const sent = debug.mock.calls.map(([line]) => String(line)).filter((line) => line.includes(" rpc.send "))
+      expect(sent.filter((line) => line.includes('"method":"initialize"'))).toHaveLength(1)
+      expect(sent.filter((line) => line.includes('"method":"notifications/roots/list_changed"'))).toHaveLength(1)
+    } finally {
+      if (debugSetting === undefined) delete process.env["OPENCODE_CODEX_PROVIDER_DEBUG"]
+      else process.env["OPENCODE_CODEX_PROVIDER_DEBUG"] = debugSetting
+      debug.mockRestore()
+      sharedClientPool.closeAll()
+    }
+  })
+
+  test("finishes cleanly when Codex cancels the turn", async () => {
+    const parts = await streamScenario(
+      fakeCodex({
+        turns: [{ steps: [{ event: { type: "agent_message_delta", delta: "Partial" } }, { cancel: "interrupted" }] }],
+      }),
+    )
+
+    expect(parts.some((part) => part.type === "error")).toBe(false)
+    expect(deltas(parts, "text-delta")).toEqual(["Partial"])
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      finishReason: "other",
+      providerMetadata: { codex: { cancelled: { cancelledBy: "server", reason: "interrupted" } } },
+    })
+  })
+
+  test("denies approval requests by default and says how to change that", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {})
+    try {
+      const parts = await streamScenario(fakeCodex("approval"))
+
+      expect(parts.find((part) => part.type === "tool-result" && part.toolName === "codex_approval")).toMatchObject({
+        result: { decision: "denied" },
+      })
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('"approvalDecision" is not set'))
+    } finally {
+      warn.mockRestore()
+    }
+  })
+
+  test("stops waiting for an approval Codex withdraws", async () => {
+    const parts = await streamScenario({
+      ...fakeCodex({
+        turns: [
+          {
+            steps: [
+              { approval: { codex_elicitation: "exec-approval", codex_command: ["ls"] }, withdrawAfterMs: 50 },
+              { result: "skipped" },
+            ],
+          },
+        ],
+      }),
+      approvalHandler: (_request, { abortSignal }) =>
+        new Promise((resolve) => abortSignal?.addEventListener("abort", () => resolve("approved"))),
+    })
+
+    expect(parts.find((part) => part.type === "tool-result" && part.toolName === "codex_approval")).toMatchObject({
+      result: { cancelled: true },
+    })
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "stop" })
+  })
+
+  test("renders the history with a custom transcript renderer", async () => {
+    const parts = await streamScenario(
+      {
+        ...fakeCodex({ turns: [{ steps: [{ echoArguments: true }] }] }),
+        reuseConversation: false,
+        transcriptRenderer: (turns) => turns.map((turn) => `${turn.role}: ${turn.blocks.length}`).join("\n"),
+      },
+      {
+        prompt: [
+          { role: "user", content: [{ type: "text", text: "Hello" }] },
+          { role: "assistant", content: [{ type: "text", text: "Hi" }] },
+          { role: "user", content: [{ type: "text", text: "Again" }] },
+        ],
+      },
+    )
+    expect(JSON.parse(deltas(parts, "text-delta").join("")).prompt).toBe("user: 1\nassistant: 1\nuser: 1")
+  })
+
+  describe("conversation reuse", () => {
+    const firstTurn = {
+      steps: [
+        { event: { type: "session_configured", session_id: "S1" } },
+        { event: { type: "agent_message", message: "one done" } },
+        { result: "one done" },
+      ],
+    }
+    const system = { role: "system", content: "Be terse." } as const
+    const history = (first: string): LanguageModelV2CallOptions["prompt"] => [
+      system,
+      { role: "user", content: [{ type: "text", text: first }] },
+      { role: "assistant", content: [{ type: "text", text: "one done" }] },
+      { role: "user", content: [{ type: "text", text: "two" }] },
+    ]
+    const pooled = { ...fakeCodex({ turns: [firstTurn, { steps: [{ echoArguments: true }] }] }), reuseProcess: true }
+
+    test("continues the conversation with only the new user text", async () => {
+      try {
+        await streamScenario(pooled, {
+          prompt: [system, { role: "user", content: [{ type: "text", text: "one" }] }],
+        })
+        const parts = await streamScenario(pooled, { prompt: history("one") })
+
+        expect(JSON.parse(deltas(parts, "text-delta").join(""))).toEqual({ conversationId: "S1", prompt: "two" })
+      } finally {
+        sharedClientPool.closeAll()
+      }
+    })
+
+    test("starts a new conversation when the history no longer matches", async () => {
+      try {
+        await streamScenario(pooled, {
+          prompt: [system, { role: "user", content: [{ type: "text", text: "one" }] }],
+        })
+        const parts = await streamScenario(pooled, { prompt: history("one, edited") })
+
+        const args = JSON.parse(deltas(parts, "text-delta").join(""))
+        expect(args.conversationId).toBeUndefined()
+        expect(args["developer-instructions"]).toBe("Be terse.")
+        expect(args.prompt).toContain("## User\none, edited")
+        expect(args.prompt).toContain("## User\ntwo")
+      } finally {
+        sharedClientPool.closeAll()
+      }
+    })
+
+    test("starts a new conversation when the sandbox was tightened", async () => {
+      try {
+        await streamScenario(
+          { ...pooled, sandboxMode: "workspace-write" },
+          { prompt: [system, { role: "user", content: [{ type: "text", text: "one" }] }] },
+        )
+        const parts = await streamScenario({ ...pooled, sandboxMode: "read-only" }, { prompt: history("one") })
+
+        const args = JSON.parse(deltas(parts, "text-delta").join(""))
+        expect(args.conversationId).toBeUndefined()
+        expect(args.sandbox).toBe("read-only")
+      } finally {
+        sharedClientPool.closeAll()
+      }
+    })
+
+    test("never continues another session's conversation that opened the same way", async () => {
+      const opening = (session: string) => ({
+        steps: [
+          { event: { type: "session_configured", session_id: `S-${session}` } },
+          { result: `${session} done` },
+        ],
+      })
+      const turns = [opening("a"), opening("b"), { steps: [{ echoArguments: true }] }]
+      const secondTurn: LanguageModelV2CallOptions["prompt"] = [
+        { role: "user", content: [{ type: "text", text: "one" }] },
+        { role: "assistant", content: [{ type: "text", text: "a done" }] },
+        { role: "user", content: [{ type: "text", text: "two" }] },
+      ]
+      for (const sessions of [false, true]) {
+        const session = (id: string) => ({ ...fakeCodex({ turns }), reuseProcess: true, ...(sessions ? { sessionId: id } : {}) })
+        try {
+          await streamScenario(session("ses_a"), { prompt: [{ role: "user", content: [{ type: "text", text: "one" }] }] })
+          await streamScenario(session("ses_b"), { prompt: [{ role: "user", content: [{ type: "text", text: "one" }] }] })
+          const parts = await streamScenario(session("ses_a"), { prompt: secondTurn })
+
+          expect(JSON.parse(deltas(parts, "text-delta").join("")).conversationId).toBe(sessions ? "S-a" : undefined)
+        } finally {
+          sharedClientPool.closeAll()
+        }
+      }
+    })
+  })
+
+  describe("history limit", () => {
+    const longHistory: Partial<LanguageModelV2CallOptions> = {
+      prompt: [
+        { role: "user", content: [{ type: "text", text: "x".repeat(400) }] },
+        { role: "assistant", content: [{ type: "text", text: "y".repeat(400) }] },
+        { role: "user", content: [{ type: "text", text: "Now?" }] },
+      ],
+    }
+    const finishMetadata = (parts: LanguageModelV2StreamPart[]) =>
+      (parts.at(-1) as { providerMetadata?: Record<string, any> }).providerMetadata?.["codex"]
+
+    test("leaves out the oldest messages and reports it", async () => {
+      const parts = await streamScenario(
+        { ...fakeCodex({ turns: [{ steps: [{ echoArguments: true }] }] }), historyLimit: { maxTokens: 50 } },
+        longHistory,
+      )
+      const start = parts[0] as Extract<LanguageModelV2StreamPart, { type: "stream-start" }>
+      expect(start.warnings).toEqual([
+        {
+          type: "other",
+          message: "Left out the 2 oldest of 3 messages (about 224 tokens) to keep the history within about 50 tokens.",
+        },
+      ])
+      const args = JSON.parse(deltas(parts, "text-delta").join(""))
+      expect(args.prompt).toBe("(2 earlier messages left out to fit the context window.)\n\nNow?")
+      expect(finishMetadata(parts)?.history).toEqual({
+        sentMessages: 1,
+        elidedMessages: 2,
+        elidedTokens: 224,
+        budgetTokens: 50,
+        strategy: "drop",
+      })
+    })
+
+    test("has Codex summarise what it leaves out", async () => {
+      const parts = await streamScenario(
+        {
+          ...fakeCodex({
+            turns: [{ steps: [{ result: "They compared x and y." }] }, { steps: [{ echoArguments: true }] }],
+          }),
+          historyLimit: { maxTokens: 50, strategy: "summarize" },
+        },
+        longHistory,
+      )
+      const args = JSON.parse(deltas(parts, "text-delta").join(""))
+      expect(args.prompt).toBe(
+        "Summary of 2 earlier messages, left out to fit the context window:\nThey compared x and y.\n\nNow?",
+      )
+      expect(finishMetadata(parts)?.history).toMatchObject({ strategy: "summarize", summarized: true })
+    })
+
+    test("keeps other calls' events out while the summary runs", async () => {
+      const shared = {
+        ...fakeCodex({
+          turns: [
+            {
+              steps: [
+                { event: { type: "agent_message_delta", delta: "B1 " } },
+                { event: { type: "agent_message_delta", delta: "B2 " }, delayMs: 150 },
+                { event: { type: "task_complete" } },
+                { result: "B1 B2 " },
+              ],
+            },
+            { steps: [{ result: "They compared x and y.", delayMs: 300 }] },
+            { steps: [{ event: { type: "agent_message_delta", delta: "A" } }, { result: "A" }] },
+          ],
+        }),
+        reuseProcess: true,
+        retry: false,
+      } as const
+      const model = createCodexProvider().languageModel("gpt-5-codex")
+      try {
+        const other = await model.doStream({
+          prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+          providerOptions: { codex: shared as any },
+        })
+        const otherReader = other.stream.getReader()
+        const otherParts: LanguageModelV2StreamPart[] = []
+        // The other call is mid-turn before the summarising call starts on the same process.
+        while (!otherParts.some((part) => part.type === "text-delta")) {
+          const { value, done } = await otherReader.read()
+          if (done) break
+          otherParts.push(value)
+        }
+        const summarising = streamScenario({ ...shared, historyLimit: { maxTokens: 50, strategy: "summarize" } }, longHistory)
+        const readOther = (async () => {
+          while (true) {
+            const { value, done } = await otherReader.read()
+            if (done) break
+            otherParts.push(value)
+          }
+        })()
+        const [parts] = await Promise.all([summarising, readOther])
+
+        expect(deltas(parts, "text-delta").join("")).toBe("A")
+        expect(finishMetadata(parts)?.history).toMatchObject({ summarized: true })
+        expect(deltas(otherParts, "text-delta").join("")).toBe("B1 B2 ")
+      } finally {
+        sharedClientPool.closeAll()
+      }
+    })
+
+    test("sends the whole history without a budget", async () => {
+      const parts = await streamScenario(fakeCodex({ turns: [{ steps: [{ echoArguments: true }] }] }), longHistory)
+      expect(JSON.parse(deltas(parts, "text-delta").join("")).prompt).toContain("x".repeat(400))
+      expect(finishMetadata(parts)?.history).toBeUndefined()
+    })
+  })
+
+  describe("system prompts", () => {
+    const echo = { turns: [{ steps: [{ echoArguments: true }] }] }
+    const withSystem: Partial<LanguageModelV2CallOptions> = {
+      prompt: [
+        { role: "system", content: "Be terse." },
+        { role: "user", content: [{ type: "text", text: "Hello" }] },
+      ],
+    }
+    const sentArguments = (parts: LanguageModelV2StreamPart[]) => JSON.parse(deltas(parts, "text-delta").join(""))
+
+    test("go to developer instructions by default", async () => {
+      const args = sentArguments(await streamScenario(fakeCodex(echo), withSystem))
+      expect(args["developer-instructions"]).toBe("Be terse.")
+      expect(args["base-instructions"]).toBeUndefined()
+      expect(args.prompt).toBe("Hello")
+    })
+
+    test("replace Codex's base instructions when asked to", async () => {
+      const args = sentArguments(await streamScenario({ ...fakeCodex(echo), systemPromptMode: "replace" }, withSystem))
+      expect(args["base-instructions"]).toBe("Be terse.")
+      expect(args.prompt).toBe("Hello")
+    })
+
+    test("stay in the prompt in inline mode", async () => {
+      const args = sentArguments(await streamScenario({ ...fakeCodex(echo), systemPromptMode: "inline" }, withSystem))
+      expect(args.prompt).toBe("Be terse.\n\nHello")
+      expect(args["developer-instructions"]).toBeUndefined()
+    })
+
+    test("fall back to the prompt when Codex lacks the argument", async () => {
+      const tools = structuredClone(CODEX_TOOLS)
+      delete tools[0]!.inputSchema.properties!["developer-instructions"]
+      const args = sentArguments(await streamScenario(fakeCodex({ ...echo, tools }), withSystem))
+      expect(args.prompt).toBe("Be terse.\n\nHello")
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, test, expect } from "bun:test"
+import { decideApproval, parseApprovalRequest } from "../../src/approvals"
+
+const execParams = {
+  message: "Allow Codex to run `npm test`?",
+  requestedSchema: { type: "object", properties: {} },
+  codex_elicitation: "exec-approval",
+  codex_mcp_tool_call_id: "3",
+  codex_event_id: "evt-1",
+  codex_call_id: "call-1",
+  codex_command: ["npm", "test"],
+  codex_cwd: "/workspace",
+}
+
+describe("Approval bridging", () => {
+  test("parses exec approval elicitations", () => {
+    const request = parseApprovalRequest(execParams)
+
+    expect(request?.kind).toBe("exec")
+    expect(request?.command).toEqual(["npm", "test"])
+    expect(request?.cwd).toBe("/workspace")
+    expect(request?.callId).toBe("call-1")
+    expect(request?.toolCallRequestId).toBe("3")
+  })
+
+  test("parses patch approval elicitations", () => {
+    const request = parseApprovalRequest({
+      message: "Apply patch?",
+      codex_elicitation: "patch-approval",
+      codex_mcp_tool_call_id: 4,
+      codex_call_id: "call-2",
+      codex_reason: "needs write access",
+      codex_changes: { "src/a.ts": { update: { unified_diff: "@@" } } },
+    })
+
+    expect(request?.kind).toBe("patch")
+    expect(request?.reason).toBe("needs write access")
+    expect(request?.toolCallRequestId).toBe("4")
+  })
+
+  test("ignores elicitations that are not approvals", () => {
+    expect(parseApprovalRequest({ message: "Pick a colour" })).toBeUndefined()
+    expect(parseApprovalRequest(null)).toBeUndefined()
+  })
+
+  test("denies by default", async () => {
+    const request = parseApprovalRequest(execParams)!
+    expect(await decideApproval(request, {})).toBe("denied")
+  })
+
+  test("applies the configured policy", async () => {
+    const request = parseApprovalRequest(execParams)!
+    expect(await decideApproval(request, { approvalDecision: "approve" })).toBe("approved")
+    expect(await decideApproval(request, { approvalDecision: "approve-for-session" })).toBe("approved_for_session")
+  })
+
+  test("prefers the approval handler over the policy", async () => {
+    const request = parseApprovalRequest(execParams)!
+    const decision = await decideApproval(request, {
+      approvalDecision: "deny",
+      approvalHandler: async (incoming) => (incoming.command?.[0] === "npm" ? "approved" : "denied"),
+    })
+    expect(decision).toBe("approved")
+  })
+
+  test("denies when the handler fails or answers nonsense", async () => {
+    const request = parseApprovalRequest(execParams)!
+    const failing = await decideApproval(request, {
+      approvalDecision: "approve",
+      approvalHandler: () => {
+        throw new Error("boom")
+      },
+    })
+    const invalid = await decideApproval(request, {
+      approvalHandler: () => "maybe" as any,
+    })
+
+    expect(failing).toBe("denied")
+    expect(invalid).toBe("denied")
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, test, expect, beforeEach, afterAll, setSystemTime, spyOn } from "bun:test"
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import {
+  clearCodexBinaryCache,
+  compareVersions,
+  FAILED_CHECK_TTL_MS,
+  parseCodexVersion,
+  resolveCodexBinary,
+} from "../../src/binary"
+import { CodexBinaryNotFoundError, CodexUnsupportedVersionError } from "../../src/errors"
+
+const dir = mkdtempSync(path.join(os.tmpdir(), "codex-binary-"))
+
+// A `codex` stand-in that prints `output` for --version and counts how often it ran.
+function fakeBinary(name: string, output: string) {
+  const file = path.join(dir, name)
+  writeFileSync(file, `#!/bin/sh\necho run >> "${file}.calls"\necho "${output}"\n`)
+  chmodSync(file, 0o755)
+  return file
+}
+
+const calls = (file: string) => readFileSync(`${file}.calls`, "utf-8").trim().split("\n").length
+
+beforeEach(() => clearCodexBinaryCache())
+afterAll(() => rmSync(dir, { recursive: true, force: true }))
+
+describe("resolveCodexBinary", () => {
+  test("finds a command name on PATH and reads its version", async () => {
+    const file = fakeBinary("codex-path", "codex-cli 0.46.0")
+    const info = await resolveCodexBinary({ binary: "codex-path", env: { PATH: dir } })
+    expect(info).toEqual({ command: file, version: "0.46.0" })
+  })
+
+  test("caches the result per binary", async () => {
+    const file = fakeBinary("codex-cached", "codex-cli 0.46.0")
+    await resolveCodexBinary({ binary: file })
+    await resolveCodexBinary({ binary: file })
+    await resolveCodexBinary({ binary: "codex-cached", env: { PATH: dir } })
+    expect(calls(file)).toBe(1)
+  })
+
+  test("reports where it looked when the binary is missing", async () => {
+    const error = await resolveCodexBinary({ binary: "codex-missing", env: { PATH: dir } }).then(
+      () => undefined,
+      (error: unknown) => error,
+    )
+    expect(error).toBeInstanceOf(CodexBinaryNotFoundError)
+    expect((error as Error).message).toContain(path.join(dir, "codex-missing"))
+    expect((error as Error).message).toContain(path.join(os.homedir(), ".local", "bin", "codex-missing"))
+  })
+
+  test("rejects versions older than the supported range", async () => {
+    const file = fakeBinary("codex-old", "codex-cli 0.30.2")
+    await expect(resolveCodexBinary({ binary: file })).rejects.toBeInstanceOf(CodexUnsupportedVersionError)
+  })
+
+  test("checks a failed binary again once the failure has expired", async () => {
+    const file = fakeBinary("codex-outdated", "codex-cli 0.30.2")
+    try {
+      for (let i = 0; i < 2; i++) {
+        await expect(resolveCodexBinary({ binary: file })).rejects.toBeInstanceOf(CodexUnsupportedVersionError)
+      }
+      expect(calls(file)).toBe(1)
+
+      fakeBinary("codex-outdated", "codex-cli 0.46.0")
+      setSystemTime(new Date(Date.now() + FAILED_CHECK_TTL_MS))
+      expect(await resolveCodexBinary({ binary: file })).toEqual({ command: file, version: "0.46.0" })
+      expect(calls(file)).toBe(2)
+    } finally {
+      setSystemTime()
+    }
+  })
+
+  test("warns about versions newer than the tested range", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {})
+    try {
+      const file = fakeBinary("codex-new", "codex-cli 1.2.0")
+      const info = await resolveCodexBinary({ binary: file })
+      expect(info.version).toBe("1.2.0")
+      expect(info.warning).toContain("newer than the versions")
+      expect(warn).toHaveBeenCalledTimes(1)
+    } finally {
+      warn.mockRestore()
+    }
+  })
+
+  test("accepts binaries whose version output it does not recognize", async () => {
+    const file = fakeBinary("codex-wrapper", "1.4.3")
+    expect(await resolveCodexBinary({ binary: file })).toEqual({ command: file })
+  })
+})
+
+describe("version helpers", () => {
+  test("parses codex --version output", () => {
+    expect(parseCodexVersion("codex-cli 0.46.0\n")).toBe("0.46.0")
+    expect(parseCodexVersion("codex 0.41.0-alpha.3")).toBe("0.41.0-alpha.3")
+    expect(parseCodexVersion("bun 1.4.3")).toBeUndefined()
+  })
+
+  test("compares dotted versions with wildcards", () => {
+    expect(compareVersions("0.46.0", "0.40.0")).toBe(1)
+    expect(compareVersions("0.9.0", "0.40.0")).toBe(-1)
+    expect(compareVersions("0.50.7", "0.50.x")).toBe(0)
+    expect(compareVersions("0.51.0", "0.50.x")).toBe(1)
+  })
+})
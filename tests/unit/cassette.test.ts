@@ -0,0 +1,90 @@
+import { describe, test, expect } from "bun:test"
+import { mkdtempSync } from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { cassettePath, readCassette, RecordingTransport, ReplayTransport, type CassetteEntry } from "../../src/cassette"
+import { CodexMCPClient } from "../../src/codexClient"
+import { CodexNotLoggedInError } from "../../src/errors"
+import { StdioTransport } from "../../src/transport"
+import type { JsonRpcNotification } from "../../src/types"
+
+const server = `
+  const readline = require("readline")
+  const send = (message) => process.stdout.write(JSON.stringify(message) + "\\n")
+  readline.createInterface({ input: process.stdin }).on("line", (line) => {
+    const message = JSON.parse(line)
+    if (message.method === "initialize") send({ jsonrpc: "2.0", id: message.id, result: {} })
+    if (message.method !== "tools/call") return
+    send({ jsonrpc: "2.0", method: "codex/event", params: { _meta: { requestId: message.id }, msg: { type: "agent_message_delta", delta: "Hel" } } })
+    setTimeout(() => {
+      send({ jsonrpc: "2.0", method: "codex/event", params: { _meta: { requestId: message.id }, msg: { type: "agent_message_delta", delta: "lo" } } })
+      send({ jsonrpc: "2.0", id: message.id, result: { content: [{ type: "text", text: "Hello" }] } })
+    }, 30)
+  })
+`
+
+async function runTurn(client: CodexMCPClient) {
+  const deltas: string[] = []
+  client.onNotification((notification: JsonRpcNotification) => {
+    deltas.push((notification.params as any).msg.delta)
+  })
+  await client.initialize()
+  const { result } = await client.callCodex({ prompt: "hi" })
+  return { result, deltas }
+}
+
+describe("cassettes", () => {
+  test("records a session and replays it into a new client", async () => {
+    const file = cassettePath(mkdtempSync(path.join(os.tmpdir(), "codex-cassette-")))
+    const recorded = new CodexMCPClient(
+      new RecordingTransport(new StdioTransport(process.execPath, ["-e", server]), file),
+    )
+    const original = await runTurn(recorded)
+    await recorded.close()
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    const entries = readCassette(file)
+    expect(entries.map((entry) => entry.direction)).toEqual([
+      "send",
+      "receive",
+      "send",
+      "send",
+      "receive",
+      "receive",
+      "receive",
+    ])
+    expect(entries.every((entry, index) => index === 0 || entry.offsetMs >= entries[index - 1]!.offsetMs)).toBe(true)
+
+    const replayed = new CodexMCPClient(ReplayTransport.fromFile(file, { speed: Infinity }))
+    try {
+      expect(await runTurn(replayed)).toEqual(original)
+      expect(original.deltas).toEqual(["Hel", "lo"])
+    } finally {
+      await replayed.close()
+    }
+  })
+
+  test("replays with the recorded timing divided by speed", async () => {
+    const entries: CassetteEntry[] = [
+      { offsetMs: 0, direction: "send", message: { jsonrpc: "2.0", id: 0, method: "initialize" } },
+      { offsetMs: 400, direction: "receive", message: { jsonrpc: "2.0", id: 0, result: {} } },
+    ]
+    const started = Date.now()
+    const client = new CodexMCPClient(new ReplayTransport(entries, { speed: 10 }))
+    await client.initialize()
+    const elapsed = Date.now() - started
+    expect(elapsed).toBeGreaterThanOrEqual(35)
+    expect(elapsed).toBeLessThan(300)
+    await client.close()
+  })
+
+  test("replays the end of the connection", async () => {
+    const entries: CassetteEntry[] = [
+      { offsetMs: 0, direction: "send", message: { jsonrpc: "2.0", id: 0, method: "initialize" } },
+      { offsetMs: 5, direction: "close", code: 1, signal: null, diagnostics: "Error: Not logged in" },
+    ]
+    const client = new CodexMCPClient(new ReplayTransport(entries, { speed: Infinity }))
+    const error = await client.initialize().catch((error) => error)
+    expect(error).toBeInstanceOf(CodexNotLoggedInError)
+  })
+})
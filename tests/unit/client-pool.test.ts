@@ -0,0 +1,194 @@
+import { describe, test, expect } from "bun:test"
+import { CodexClientPool } from "../../src/clientPool"
+import { CodexCrashLoopError } from "../../src/errors"
+import { CrashSupervisor } from "../../src/supervisor"
+
+function createFakeClient() {
+  const exitHandlers = new Set<(code: number | null, signal: NodeJS.Signals | null) => void>()
+  const client = {
+    closed: false,
+    refCalls: 0,
+    unrefCalls: 0,
+    initializeCalls: 0,
+    isClosed: () => client.closed,
+    close: async () => {
+      client.closed = true
+    },
+    initialize: async () => {
+      client.initializeCalls += 1
+    },
+    ref: () => {
+      client.refCalls += 1
+    },
+    unref: () => {
+      client.unrefCalls += 1
+    },
+    onExit: (handler: (code: number | null, signal: NodeJS.Signals | null) => void) => {
+      exitHandlers.add(handler)
+      return () => exitHandlers.delete(handler)
+    },
+    onError: () => () => true,
+    crash: () => {
+      client.closed = true
+      exitHandlers.forEach((handler) => handler(1, null))
+    },
+  }
+  return client
+}
+
+function createPool() {
+  const created: ReturnType<typeof createFakeClient>[] = []
+  const pool = new CodexClientPool(() => {
+    const client = createFakeClient()
+    created.push(client)
+    return client as any
+  })
+  return { pool, created }
+}
+
+describe("CodexClientPool", () => {
+  test("reuses one process for calls with the same spawn settings", () => {
+    const { pool, created } = createPool()
+
+    const first = pool.acquire({ binary: "codex" })
+    const second = pool.acquire({ binary: "codex" })
+
+    expect(first.client).toBe(second.client)
+    expect(created).toHaveLength(1)
+    expect(pool.size).toBe(1)
+  })
+
+  test("spawns separate processes for different env or spawnCwd", () => {
+    const { pool, created } = createPool()
+
+    pool.acquire({ env: { A: "1" } })
+    pool.acquire({ env: { A: "2" } })
+    pool.acquire({ env: { A: "1" }, spawnCwd: "/tmp" })
+
+    expect(created).toHaveLength(3)
+  })
+
+  test("shares a process across workspace roots", () => {
+    const { pool, created } = createPool()
+
+    const first = pool.acquire({ cwd: "/work/app" })
+    const other = pool.acquire({ cwd: "/work/other", additionalRoots: ["../shared"] })
+
+    expect(created).toHaveLength(1)
+    expect(other.client).toBe(first.client)
+  })
+
+  test("keeps released clients warm until the idle TTL expires", async () => {
+    const { pool, created } = createPool()
+
+    const lease = pool.acquire({ processIdleTtl: 20 })
+    lease.release()
+    lease.release()
+
+    expect(created[0]!.closed).toBe(false)
+    expect(created[0]!.unrefCalls).toBe(1)
+
+    const again = pool.acquire({ processIdleTtl: 20 })
+    expect(again.client).toBe(lease.client)
+    again.release()
+
+    await new Promise((resolve) => setTimeout(resolve, 40))
+    expect(created[0]!.closed).toBe(true)
+    expect(pool.size).toBe(0)
+  })
+
+  test("replaces a client whose process exited", () => {
+    const { pool, created } = createPool()
+
+    const lease = pool.acquire({})
+    created[0]!.crash()
+
+    const next = pool.acquire({})
+    expect(next.client).not.toBe(lease.client)
+    expect(created).toHaveLength(2)
+  })
+
+  test("closes the process on release when reuseProcess is false", () => {
+    const { pool, created } = createPool()
+
+    const lease = pool.acquire({ reuseProcess: false })
+    expect(pool.size).toBe(0)
+    lease.release()
+
+    expect(created[0]!.closed).toBe(true)
+  })
+
+  test("closeAll shuts down every pooled process", () => {
+    const { pool, created } = createPool()
+
+    pool.acquire({ binary: "a" })
+    pool.acquire({ binary: "b" })
+    pool.closeAll()
+
+    expect(created.every((client) => client.closed)).toBe(true)
+    expect(pool.size).toBe(0)
+  })
+
+  test("restarts a crashed process after backoff and re-initializes it", async () => {
+    const { pool, created } = createPool()
+    const options = { supervisor: { restartDelayMs: 10 } }
+
+    pool.acquire(options).release()
+    created[0]!.crash()
+    expect(pool.size).toBe(0)
+
+    await new Promise((resolve) => setTimeout(resolve, 30))
+    expect(created).toHaveLength(2)
+    expect(created[1]!.initializeCalls).toBe(1)
+    expect(pool.status(options)).toMatchObject({ restarts: 1, lastExit: { code: 1 }, circuitOpen: false })
+    pool.closeAll()
+  })
+
+  test("stops restarting after a crash loop", () => {
+    const { pool, created } = createPool()
+    const options = { supervisor: { crashLoopThreshold: 2, restartDelayMs: 60_000 } }
+
+    pool.acquire(options)
+    created[0]!.crash()
+    pool.acquire(options)
+    created[1]!.crash()
+
+    expect(() => pool.acquire(options)).toThrow(CodexCrashLoopError)
+    expect(pool.status(options)).toMatchObject({ restarts: 1, circuitOpen: true })
+    pool.closeAll()
+  })
+
+  test("leaves crashed processes alone when supervision is off", async () => {
+    const { pool, created } = createPool()
+
+    pool.acquire({ supervisor: false })
+    created[0]!.crash()
+
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    expect(created).toHaveLength(1)
+    expect(pool.status({ supervisor: false })).toBeUndefined()
+  })
+})
+
+describe("CrashSupervisor", () => {
+  test("backs off per recent crash and resets the circuit after the cooldown", () => {
+    let now = 0
+    const supervisor = new CrashSupervisor(
+      { restartDelayMs: 100, maxRestartDelayMs: 300, crashLoopThreshold: 3, crashLoopWindowMs: 1000, circuitResetMs: 5000 },
+      () => now,
+    )
+    const exit = { code: 1, signal: null, reason: "exited with code 1" }
+
+    expect(supervisor.recordExit(exit)).toBe(true)
+    expect(supervisor.restartDelay()).toBe(100)
+    expect(supervisor.recordExit(exit)).toBe(true)
+    expect(supervisor.restartDelay()).toBe(200)
+    expect(supervisor.recordExit(exit)).toBe(false)
+    expect(supervisor.status()).toMatchObject({ circuitOpen: true, retryAt: 5000 })
+
+    now = 5000
+    expect(supervisor.isOpen()).toBe(false)
+    expect(supervisor.recordExit(exit)).toBe(true)
+    expect(supervisor.restartDelay()).toBe(100)
+  })
+})
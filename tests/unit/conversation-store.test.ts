@@ -0,0 +1,89 @@
+import { describe, test, expect } from "bun:test"
+import type { LanguageModelV2Prompt } from "@ai-sdk/provider"
+import { ConversationStore } from "../../src/conversationStore"
+
+const fakeClient = (closed = false) => ({ isClosed: () => closed }) as any
+
+const firstTurn: LanguageModelV2Prompt = [
+  { role: "system", content: "You are opencode. Today is Monday." },
+  { role: "user", content: [{ type: "text", text: "List the files" }] },
+]
+
+const secondTurn: LanguageModelV2Prompt = [
+  { role: "system", content: "You are opencode. Today is Tuesday." },
+  { role: "user", content: [{ type: "text", text: "List the files" }] },
+  { role: "assistant", content: [{ type: "text", text: "README.md and src/" }] },
+  { role: "user", content: [{ type: "text", text: "Now open the README" }] },
+]
+
+describe("ConversationStore", () => {
+  test("finds the live conversation and only the new messages", () => {
+    const store = new ConversationStore()
+    const client = fakeClient()
+    store.remember(firstTurn, client, { conversationId: "conv-1", reply: "README.md and src/" })
+
+    const match = store.find(secondTurn, client)
+
+    expect(match?.conversationId).toBe("conv-1")
+    expect(match?.newMessages).toEqual(secondTurn.slice(2))
+  })
+
+  test("ignores unrelated histories", () => {
+    const store = new ConversationStore()
+    const client = fakeClient()
+    store.remember(firstTurn, client, { conversationId: "conv-1", reply: "README.md and src/" })
+
+    const other: LanguageModelV2Prompt = [{ role: "user", content: [{ type: "text", text: "Something else" }] }]
+    expect(store.find(other, client)).toBeUndefined()
+  })
+
+  test("drops conversations that belong to another or a closed process", () => {
+    const store = new ConversationStore()
+    const client = fakeClient()
+    store.remember(firstTurn, client, { conversationId: "conv-1", reply: "README.md and src/" })
+
+    expect(store.find(secondTurn, fakeClient())).toBeUndefined()
+    expect(store.size).toBe(0)
+
+    const closed = fakeClient(true)
+    store.remember(firstTurn, closed, { conversationId: "conv-2", reply: "README.md and src/" })
+    expect(store.find(secondTurn, closed)).toBeUndefined()
+  })
+
+  test("returns nothing when no new messages arrived", () => {
+    const store = new ConversationStore()
+    const client = fakeClient()
+    store.remember(firstTurn, client, { conversationId: "conv-1", reply: "README.md and src/" })
+
+    expect(store.find(firstTurn, client)).toBeUndefined()
+  })
+  test("tells apart sessions that open with the same message", () => {
+    const store = new ConversationStore()
+    const client = fakeClient()
+    store.remember(firstTurn, client, { conversationId: "conv-a", reply: "README.md and src/" })
+    store.remember(firstTurn, client, { conversationId: "conv-b", reply: "Only package.json" })
+
+    expect(store.find(secondTurn, client)).toBeUndefined()
+
+    store.remember(firstTurn, client, { conversationId: "conv-a", reply: "README.md and src/", session: "ses_a" })
+    store.remember(firstTurn, client, { conversationId: "conv-b", reply: "Only package.json", session: "ses_b" })
+    expect(store.find(secondTurn, client, { session: "ses_a" })?.conversationId).toBe("conv-a")
+    expect(store.find(secondTurn, client, { session: "ses_b" })).toBeUndefined()
+  })
+
+  test("does not remember a turn that gave no answer", () => {
+    const store = new ConversationStore()
+    store.remember(firstTurn, fakeClient(), { conversationId: "conv-1", reply: " " })
+    expect(store.size).toBe(0)
+  })
+  test("starts over when the model, sandbox, approval policy or cwd changed", () => {
+    const store = new ConversationStore()
+    const client = fakeClient()
+    const settings = { model: "gpt-5-codex", sandbox: "workspace-write", approvalPolicy: "on-request", cwd: "/repo" }
+    store.remember(firstTurn, client, { conversationId: "conv-1", reply: "README.md and src/", settings })
+
+    expect(store.find(secondTurn, client, { settings })?.conversationId).toBe("conv-1")
+    expect(store.find(secondTurn, client, { settings: { ...settings, sandbox: "read-only" } })).toBeUndefined()
+    expect(store.find(secondTurn, client, { settings: { ...settings, cwd: "/other" } })).toBeUndefined()
+  })
+})
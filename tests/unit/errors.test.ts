@@ -0,0 +1,102 @@
+import { describe, test, expect } from "bun:test"
+import { CodexMCPClient } from "../../src/codexClient"
+import {
+  classifyCodexFailure,
+  CodexAbortedError,
+  CodexBinaryNotFoundError,
+  CodexError,
+  CodexNotLoggedInError,
+  CodexProcessExitError,
+  CodexRateLimitError,
+  CodexSandboxDeniedError,
+  CodexUsageLimitError,
+  finalErrorLines,
+  parseRetryAfter,
+} from "../../src/errors"
+import { StdioTransport } from "../../src/transport"
+
+describe("classifyCodexFailure", () => {
+  test("recognises the failures Codex reports", () => {
+    expect(classifyCodexFailure("Error: Not logged in. Please run codex login")).toBeInstanceOf(CodexNotLoggedInError)
+    expect(classifyCodexFailure("unexpected status 401 Unauthorized")).toBeInstanceOf(CodexNotLoggedInError)
+    expect(classifyCodexFailure("You've hit your usage limit. Upgrade to Pro")).toBeInstanceOf(CodexUsageLimitError)
+    expect(classifyCodexFailure("command failed", { sandbox_error: "denied by sandbox" })).toBeInstanceOf(
+      CodexSandboxDeniedError,
+    )
+    expect(classifyCodexFailure("something unrelated went wrong")).toBeUndefined()
+  })
+
+  test("marks rate limits as retryable and reads the suggested delay", () => {
+    const error = classifyCodexFailure("Rate limit reached for requests. Please try again in 1.5s.")
+    expect(error).toBeInstanceOf(CodexRateLimitError)
+    expect(error?.isRetryable).toBe(true)
+    expect((error as CodexRateLimitError).retryAfterMs).toBe(1500)
+    expect(classifyCodexFailure("usage limit")?.isRetryable).toBe(false)
+  })
+})
+
+describe("finalErrorLines", () => {
+  test("keeps what follows the last error line and leaves earlier log lines out", () => {
+    const stderr = [
+      "WARN codex_core::client: 429 Too Many Requests, retrying in 1s",
+      "INFO codex_core::client: request succeeded",
+      "thread 'main' panicked at codex-rs/core/src/codex.rs:12:5:",
+      "index out of bounds",
+      "",
+    ].join("\n")
+    expect(finalErrorLines(stderr)).toBe("thread 'main' panicked at codex-rs/core/src/codex.rs:12:5:\nindex out of bounds")
+    expect(classifyCodexFailure(finalErrorLines(stderr))).toBeUndefined()
+    expect(finalErrorLines("starting\nshutting down\n")).toBe("shutting down")
+    expect(finalErrorLines("")).toBe("")
+  })
+})
+
+describe("parseRetryAfter", () => {
+  test("understands the units servers use", () => {
+    expect(parseRetryAfter("try again in 300ms")).toBe(300)
+    expect(parseRetryAfter("retry after 2 seconds")).toBe(2000)
+    expect(parseRetryAfter("try again in 1 minute")).toBe(60_000)
+    expect(parseRetryAfter("no hint")).toBeUndefined()
+  })
+})
+
+describe("CodexError", () => {
+  test("is recognisable across module copies and keeps abort checks working", () => {
+    const aborted = new CodexAbortedError()
+    expect(CodexError.isInstance(aborted)).toBe(true)
+    expect(CodexError.isInstance(new Error("plain"))).toBe(false)
+    expect(aborted.name).toBe("AbortError")
+    expect(aborted.isRetryable).toBe(false)
+  })
+})
+
+describe("CodexMCPClient errors", () => {
+  test("reports a missing binary", async () => {
+    const client = new CodexMCPClient(new StdioTransport("codex-binary-that-does-not-exist", ["mcp-server"]))
+    const error = await new Promise<Error>((resolve) => client.onError(resolve))
+    expect(error).toBeInstanceOf(CodexBinaryNotFoundError)
+    expect((error as CodexError).isRetryable).toBe(false)
+  })
+
+  test("classifies the stderr of a process that exits", async () => {
+    const script = `process.stderr.write("Error: Not logged in\\n"); process.exit(1)`
+    const client = new CodexMCPClient(new StdioTransport(process.execPath, ["-e", script]))
+    const error = await client.initialize().catch((error) => error)
+    expect(error).toBeInstanceOf(CodexNotLoggedInError)
+  })
+
+  test("does not classify an exit by log lines before the final error", async () => {
+    const script = `process.stderr.write("WARN 429 Too Many Requests, retrying\\nError: connection reset\\n"); process.exit(1)`
+    const client = new CodexMCPClient(new StdioTransport(process.execPath, ["-e", script]))
+    const error = await client.initialize().catch((error) => error)
+    expect(error).toBeInstanceOf(CodexProcessExitError)
+  })
+
+  test("falls back to a retryable exit error", async () => {
+    const client = new CodexMCPClient(new StdioTransport(process.execPath, ["-e", "process.exit(3)"]))
+    const error = await client.initialize().catch((error) => error)
+    expect(error).toBeInstanceOf(CodexProcessExitError)
+    expect(error.isRetryable).toBe(true)
+    expect(error.data.code).toBe(3)
+  })
+})
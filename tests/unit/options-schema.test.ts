@@ -0,0 +1,113 @@
+import { describe, test, expect } from "bun:test"
+import { createCodexProvider } from "../../src/codexProvider"
+import { CodexInvalidOptionsError } from "../../src/errors"
+import { validateProviderOptions } from "../../src/optionsSchema"
+import { mapSandboxMode } from "../../src/utils"
+import { fakeCodex } from "../fixtures/fake-codex"
+
+describe("validateProviderOptions", () => {
+  test("keeps valid options as they are", () => {
+    const approvalHandler = () => "approved" as const
+    const options = {
+      sandboxMode: "read-only",
+      retry: { maxAttempts: 2, retryOn: ["stream"] },
+      transport: { type: "http", url: "http://localhost:8080/mcp" },
+      env: { CODEX_HOME: "/tmp/codex" },
+      approvalHandler,
+      providerFactory: "opencode-codex-provider/provider",
+    }
+    const { options: valid, issues } = validateProviderOptions(options)
+    expect(issues).toEqual([])
+    expect(valid).toEqual({
+      sandboxMode: "read-only",
+      retry: { maxAttempts: 2, retryOn: ["stream"] },
+      transport: { type: "http", url: "http://localhost:8080/mcp" },
+      env: { CODEX_HOME: "/tmp/codex" },
+      approvalHandler,
+    })
+  })
+
+  test("falls back to the strictest sandbox for a typo", () => {
+    const { options, issues } = validateProviderOptions({ sandboxMode: "readonly" })
+    expect(options.sandboxMode).toBe("read-only")
+    expect(issues).toEqual([
+      {
+        key: "sandboxMode",
+        received: "readonly",
+        expected: '"read-only" | "workspace-write" | "danger-full-access"',
+        message:
+          'Invalid codex option "sandboxMode": received "readonly", expected "read-only" | "workspace-write" | "danger-full-access". Using "read-only" instead.',
+      },
+    ])
+  })
+
+  test("drops invalid values so their defaults apply", () => {
+    const { options, issues } = validateProviderOptions({ idleTimeout: -5, streamReasoning: "yes" })
+    expect(options).toEqual({})
+    expect(issues.map((issue) => [issue.key, issue.expected])).toEqual([
+      ["idleTimeout", "a number >= 0"],
+      ["streamReasoning", "true or false"],
+    ])
+  })
+
+  test("reports nested problems without dropping the whole option", () => {
+    const input = { retry: { maxAttempts: 0, initialDelayMs: 10, retryOn: ["flaky"], backoff: 2 } }
+    const { options, issues } = validateProviderOptions(input)
+    expect(options.retry).toEqual({ initialDelayMs: 10 })
+    expect(issues.map((issue) => issue.key)).toEqual(["retry.maxAttempts", "retry.retryOn", "retry.backoff"])
+    expect(input.retry.maxAttempts).toBe(0)
+  })
+
+  test("keeps shares within their range", () => {
+    const { options, issues } = validateProviderOptions({ historyLimit: { contextShare: 1.5, strategy: "drop" } })
+    expect(options.historyLimit).toEqual({ strategy: "drop" })
+    expect(issues[0]?.expected).toBe("a number from 0 to 1")
+  })
+
+  test("checks that a transport has what its type needs", () => {
+    const { options, issues } = validateProviderOptions({ transport: { type: "websocket" } })
+    expect(options.transport).toBeUndefined()
+    expect(issues[0]?.expected).toBe('a "url" for type "websocket"')
+  })
+
+  test("suggests the intended name for unknown options", () => {
+    const { issues } = validateProviderOptions({ sandboxmode: "read-only", somethingElse: 1 })
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Unknown codex option "sandboxmode"; did you mean "sandboxMode"? It is ignored.',
+      'Unknown codex option "somethingElse". It is ignored.',
+    ])
+  })
+})
+
+describe("option validation in doStream", () => {
+  const prompt = [{ role: "user" as const, content: [{ type: "text" as const, text: "Hello" }] }]
+
+  test("returns issues as call warnings", async () => {
+    const model = createCodexProvider().languageModel("gpt-5-codex")
+    const result = await model.doGenerate({
+      prompt,
+      providerOptions: { codex: { ...fakeCodex("streaming"), retry: false, sandboxMode: "readonly" } as any },
+    })
+    expect(result.warnings).toEqual([
+      {
+        type: "other",
+        message:
+          'Invalid codex option "sandboxMode": received "readonly", expected "read-only" | "workspace-write" | "danger-full-access". Using "read-only" instead.',
+      },
+    ])
+  })
+
+  test("fails the call in strict mode", async () => {
+    const model = createCodexProvider({ strictOptions: true }).languageModel("gpt-5-codex")
+    const error = await model
+      .doStream({ prompt, providerOptions: { codex: { sandboxMode: "readonly" } } })
+      .then(undefined, (error: any) => error)
+    expect(error).toBeInstanceOf(CodexInvalidOptionsError)
+    expect(error.message).toContain('"sandboxMode": received "readonly"')
+  })
+
+  test("no longer maps unknown sandbox modes to workspace-write", () => {
+    expect(mapSandboxMode(undefined)).toBe("workspace-write")
+    expect(() => mapSandboxMode("readonly" as any)).toThrow(CodexInvalidOptionsError)
+  })
+})
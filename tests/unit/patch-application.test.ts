@@ -1,5 +1,5 @@
-import { describe, test, expect, beforeEach, mock, spyOn } from "bun:test"
-import { mkdtempSync } from "node:fs"
+import { describe, test, expect, afterEach, beforeEach, mock, spyOn } from "bun:test"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
 import { tmpdir } from "node:os"
 import path from "node:path"
 import { pathToFileURL } from "node:url"
@@ -11,6 +11,17 @@ describe("Monkey Patch Application", () => {
     resetPatchState()
   })
 
+  // Temporary directories the tests create, removed after each one
+  const tempDirs: string[] = []
+  const makeTempDir = (prefix: string) => {
+    const dir = mkdtempSync(path.join(tmpdir(), prefix))
+    tempDirs.push(dir)
+    return dir
+  }
+  afterEach(() => {
+    for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true })
+  })
+
   test("applies patch successfully", async () => {
     // Test successful patch application using dependency injection
     
@@ -254,7 +265,7 @@ describe("Monkey Patch Application", () => {
     const { __internal } = await import("../../src/monkeyPatch")
 
     const originalCwd = process.cwd()
-    const tempDir = mkdtempSync(path.join(tmpdir(), "codex-provider-path-"))
+    const tempDir = makeTempDir("codex-provider-path-")
 
     try {
       process.chdir(tempDir)
@@ -271,6 +282,37 @@ describe("Monkey Patch Application", () => {
       process.chdir(originalCwd)
     }
   })
+
+  test("passes provider and model options and the model entry to the factory", async () => {
+    const { applyProviderFactoryPatch } = await import("../../src/monkeyPatch")
+    const factoryFile = path.join(makeTempDir("codex-factory-"), "factory.ts")
+    writeFileSync(
+      factoryFile,
+      `export function createCodexProvider(settings) {
+        return { languageModel: (modelId, options, info) => ({ modelId, settings, options, limit: info.limit }) }
+      }`,
+    )
+
+    const mockProvider = {
+      Provider: {
+        getModel: mock(() => Promise.resolve({})),
+        ModelNotFoundError: class extends Error {},
+        InitError: class extends Error {},
+      }
+    }
+    await applyProviderFactoryPatch(mockProvider)
+    const state = await (mockProvider.Provider as any).state()
+    state.providers.codex.options = { providerFactory: factoryFile, sandboxMode: "read-only", streamReasoning: false }
+    state.providers.codex.info.models["gpt-5-codex"].options = { reasoningEffort: "high" }
+
+    const result = await (mockProvider.Provider.getModel as any)("codex", "gpt-5-codex")
+    expect(result.language).toEqual({
+      modelId: "gpt-5-codex",
+      settings: { sandboxMode: "read-only", streamReasoning: false },
+      options: { reasoningEffort: "high" },
+      limit: { context: 128000, output: 8192 },
+    })
+  })
 })
 
 describe("Factory Extraction", () => {
@@ -0,0 +1,84 @@
+import { describe, test, expect } from "bun:test"
+import { CodexMCPClient } from "../../src/codexClient"
+import { CodexProtocolError } from "../../src/errors"
+import { HttpTransport } from "../../src/httpTransport"
+import { StdioTransport } from "../../src/transport"
+import { MCP_PROTOCOL_VERSION } from "../../src/types"
+import { FAKE_CODEX_SERVER } from "../fixtures/fake-codex"
+
+function clientAnswering(result: Record<string, unknown>) {
+  const scenario = JSON.stringify({ initialize: { result } })
+  return new CodexMCPClient(new StdioTransport(process.execPath, [FAKE_CODEX_SERVER, scenario]))
+}
+
+describe("initialize negotiation", () => {
+  test("offers the newest version and records what the server answered", async () => {
+    const client = clientAnswering({
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: { tools: {}, logging: {} },
+      serverInfo: { name: "codex-mcp-server", version: "0.46.0" },
+    })
+    try {
+      await client.initialize()
+      expect(client.serverInfo()).toEqual({
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: { tools: {}, logging: {} },
+        serverInfo: { name: "codex-mcp-server", version: "0.46.0" },
+      })
+      expect(client.supports("elicitation")).toBe(true)
+      expect(client.supports("logging")).toBe(true)
+      expect(client.supports("prompts")).toBe(false)
+    } finally {
+      await client.close()
+    }
+  })
+
+  test("accepts an older version the server proposes", async () => {
+    const client = clientAnswering({ protocolVersion: "2025-03-26", capabilities: {} })
+    try {
+      await client.initialize()
+      expect(client.serverInfo()?.protocolVersion).toBe("2025-03-26")
+      expect(client.supports("elicitation")).toBe(false)
+      expect(client.supports("tools")).toBe(false)
+    } finally {
+      await client.close()
+    }
+  })
+
+  test("fails and disconnects when the versions do not overlap", async () => {
+    const client = clientAnswering({ protocolVersion: "2099-01-01", capabilities: {} })
+    const error = await client.initialize().catch((error) => error)
+    expect(error).toBeInstanceOf(CodexProtocolError)
+    expect(error.message).toContain("speaks protocol version 2099-01-01")
+    expect(error.data).toMatchObject({ serverVersion: "2099-01-01" })
+    expect(client.isClosed()).toBe(true)
+  })
+
+  test("sends the negotiated version in the MCP-Protocol-Version header", async () => {
+    const versions: (string | null)[] = []
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        if (request.method !== "POST") return new Response(null, { status: 405 })
+        const body = (await request.json()) as any
+        if (body.method !== "initialize") {
+          versions.push(request.headers.get("mcp-protocol-version"))
+          return new Response(null, { status: 202 })
+        }
+        return Response.json(
+          { jsonrpc: "2.0", id: body.id, result: { protocolVersion: "2025-03-26", capabilities: {} } },
+          { headers: { "Mcp-Session-Id": "session-1" } },
+        )
+      },
+    })
+    const client = new CodexMCPClient(new HttpTransport(`http://127.0.0.1:${server.port}/mcp`))
+    try {
+      await client.initialize()
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      expect(versions).toEqual(["2025-03-26"])
+    } finally {
+      await client.close()
+      server.stop(true)
+    }
+  })
+})
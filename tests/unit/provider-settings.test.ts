@@ -0,0 +1,74 @@
+import { describe, test, expect } from "bun:test"
+import type { LanguageModelV2StreamPart } from "@ai-sdk/provider"
+import { createCodexProvider } from "../../src/codexProvider"
+import type { CodexProviderOptions } from "../../src/types"
+import { mergeProviderOptions } from "../../src/utils"
+import { fakeCodex } from "../fixtures/fake-codex"
+
+async function streamText(model: ReturnType<ReturnType<typeof createCodexProvider>["languageModel"]>, call?: CodexProviderOptions) {
+  const { stream } = await model.doStream({
+    prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+    ...(call ? { providerOptions: { codex: call as any } } : {}),
+  })
+  let text = ""
+  for await (const part of stream as unknown as AsyncIterable<LanguageModelV2StreamPart>) {
+    if (part.type === "text-delta") text += part.delta
+  }
+  return text
+}
+
+const replying = (text: string) => fakeCodex({ turns: [{ steps: [{ result: text }] }] })
+
+describe("mergeProviderOptions", () => {
+  test("lets later layers win key by key and ignores undefined values", () => {
+    expect(
+      mergeProviderOptions(
+        { sandboxMode: "read-only", streamReasoning: false },
+        { sandboxMode: "workspace-write", model: undefined },
+        { streamReasoning: true },
+        undefined,
+      ),
+    ).toEqual({ sandboxMode: "workspace-write", streamReasoning: true })
+  })
+})
+
+describe("createCodexProvider settings", () => {
+  test("applies provider settings when the call has no options", async () => {
+    const provider = createCodexProvider({ ...replying("from provider"), retry: false })
+    expect(await streamText(provider.languageModel("gpt-5-codex"))).toBe("from provider")
+  })
+
+  test("model options override provider settings", async () => {
+    const provider = createCodexProvider({ ...replying("from provider"), retry: false })
+    expect(await streamText(provider.languageModel("gpt-5-codex", replying("from model")))).toBe("from model")
+  })
+
+  test("call options override both", async () => {
+    const provider = createCodexProvider({ ...replying("from provider"), retry: false })
+    const model = provider.languageModel("gpt-5-codex", replying("from model"))
+    expect(await streamText(model, replying("from call"))).toBe("from call")
+  })
+
+  test("takes the context window from opencode's model limit", async () => {
+    const warningsFor = async (context: number) => {
+      const provider = createCodexProvider({ ...replying("ok"), retry: false })
+      const model = provider.languageModel("gpt-5-codex", undefined, { limit: { context } })
+      const { stream } = await model.doStream({
+        prompt: [
+          { role: "user", content: [{ type: "text", text: "x".repeat(400) }] },
+          { role: "assistant", content: [{ type: "text", text: "y".repeat(400) }] },
+          { role: "user", content: [{ type: "text", text: "Now?" }] },
+        ],
+      })
+      const parts: LanguageModelV2StreamPart[] = []
+      for await (const part of stream as unknown as AsyncIterable<LanguageModelV2StreamPart>) parts.push(part)
+      return (parts[0] as Extract<LanguageModelV2StreamPart, { type: "stream-start" }>).warnings
+    }
+
+    expect(await warningsFor(100)).toEqual([
+      { type: "other", message: expect.stringContaining("to keep the history within about 50 tokens") },
+    ])
+    // An unknown limit (0) is no limit, and not an invalid option either.
+    expect(await warningsFor(0)).toEqual([])
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, test, expect } from "bun:test"
+import type { LanguageModelV2StreamPart } from "@ai-sdk/provider"
+import { createCodexProvider } from "../../src/codexProvider"
+import { fakeCodex, type FakeCodexScenario } from "../fixtures/fake-codex"
+import { CodexAbortedError, CodexError, CodexRateLimitError, CodexUsageLimitError } from "../../src/errors"
+import { resolveRetryPolicy, retryDelay, shouldRetry, waitForRetry } from "../../src/retry"
+
+describe("retry policy", () => {
+  test("retries errors marked retryable until attempts run out", () => {
+    const policy = resolveRetryPolicy(undefined)
+    const rateLimited = new CodexRateLimitError({ message: "429" })
+    expect(shouldRetry(rateLimited, 1, policy)).toBe(true)
+    expect(shouldRetry(rateLimited, 3, policy)).toBe(false)
+    expect(shouldRetry(new CodexUsageLimitError({ message: "limit" }), 1, policy)).toBe(false)
+    expect(shouldRetry(new CodexAbortedError(), 1, policy)).toBe(false)
+    expect(shouldRetry(new Error("plain"), 1, policy)).toBe(false)
+    expect(shouldRetry(rateLimited, 1, resolveRetryPolicy(false))).toBe(false)
+  })
+
+  test("retryOn narrows the retried kinds", () => {
+    const policy = resolveRetryPolicy({ retryOn: ["stream"] })
+    expect(shouldRetry(new CodexRateLimitError({ message: "429" }), 1, policy)).toBe(false)
+    expect(shouldRetry(new CodexError({ message: "disconnected", kind: "stream" }), 1, policy)).toBe(true)
+  })
+
+  test("backs off exponentially with jitter and honours retry hints", () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 350, jitter: 0.5 })
+    expect(retryDelay(1, policy, undefined, () => 0.5)).toBe(100)
+    expect(retryDelay(2, policy, undefined, () => 0.5)).toBe(200)
+    expect(retryDelay(3, policy, undefined, () => 0.5)).toBe(350)
+    expect(retryDelay(1, policy, undefined, () => 0)).toBe(50)
+    expect(retryDelay(1, policy, undefined, () => 1)).toBe(150)
+    expect(retryDelay(1, policy, new CodexRateLimitError({ message: "429", retryAfterMs: 2000 }), () => 0.5)).toBe(2000)
+  })
+
+  test("stops waiting when aborted", async () => {
+    const abort = new AbortController()
+    const waiting = waitForRetry(10_000, abort.signal)
+    abort.abort()
+    expect(await waiting).toBe(false)
+    expect(await waitForRetry(1)).toBe(true)
+  })
+})
+
+// Fails the first turn with a stream error after configuring a session, then answers the retry.
+const flakyServer = `
+  const readline = require("readline")
+  const send = (message) => process.stdout.write(JSON.stringify(message) + "\\n")
+  const event = (id, msg) => send({ jsonrpc: "2.0", method: "codex/event", params: { _meta: { requestId: id }, msg } })
+  readline.createInterface({ input: process.stdin }).on("line", (line) => {
+    const message = JSON.parse(line)
+    if (message.method === "initialize") send({ jsonrpc: "2.0", id: message.id, result: {} })
+    if (message.method !== "tools/call") return
+    if (message.params.name === "codex") {
+      event(message.id, { type: "session_configured", session_id: "session-1" })
+      event(message.id, { type: "stream_error", message: "stream disconnected before completion" })
+      return
+    }
+    process.stderr.write(JSON.stringify(message.params.arguments) + "\\n")
+    event(message.id, { type: "agent_message", message: "recovered" })
+    send({ jsonrpc: "2.0", id: message.id, result: { content: [{ type: "text", text: "recovered" }] } })
+  })
+`
+
+describe("doStream retries", () => {
+  test("continues the conversation after a stream error", async () => {
+    const model = createCodexProvider().languageModel("gpt-5-codex")
+    const { stream } = await model.doStream({
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+      includeRawChunks: true,
+      providerOptions: {
+        codex: {
+          binary: process.execPath,
+          args: ["-e", flakyServer],
+          reuseProcess: false,
+          retry: { initialDelayMs: 10, jitter: 0 },
+        },
+      },
+    })
+
+    const parts: LanguageModelV2StreamPart[] = []
+    const reader = stream.getReader()
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      parts.push(value)
+    }
+
+    expect(parts.filter((part) => part.type === "text-delta").map((part) => (part as any).delta)).toEqual(["recovered"])
+    expect(parts.find((part) => part.type === "raw")).toMatchObject({
+      rawValue: { type: "codex.retry", attempt: 1, delayMs: 10, error: { kind: "stream" } },
+    })
+    const finish = parts.at(-1) as any
+    expect(finish.finishReason).toBe("stop")
+    expect(finish.providerMetadata.codex.retries).toHaveLength(1)
+  })
+
+  const streamText = async (scenario: FakeCodexScenario, includeRawChunks = false) => {
+    const model = createCodexProvider().languageModel("gpt-5-codex")
+    const { stream } = await model.doStream({
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+      includeRawChunks,
+      providerOptions: { codex: { ...fakeCodex(scenario), retry: { initialDelayMs: 10, jitter: 0 } } as any },
+    })
+    const parts: LanguageModelV2StreamPart[] = []
+    const reader = stream.getReader()
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      parts.push(value)
+    }
+    return parts
+  }
+  const streamError = { event: { type: "stream_error", message: "stream disconnected before completion" } }
+  const answer = {
+    steps: [{ event: { type: "agent_message_delta", delta: "Hello world" } }, { result: "Hello world" }],
+  }
+
+  test("starts over when the failed attempt showed nothing, and reports the retry", async () => {
+    const parts = await streamText({ turns: [{ steps: [streamError] }, answer] })
+
+    expect(parts.filter((part) => part.type === "text-delta").map((part) => (part as any).delta)).toEqual(["Hello world"])
+    expect((parts.at(-1) as any).providerMetadata.codex.retries).toMatchObject([{ attempt: 1, error: { kind: "stream" } }])
+    expect(parts.find((part) => part.type === "raw")).toBeUndefined()
+  })
+
+  test("emits retries as raw parts only when raw chunks are requested", async () => {
+    const parts = await streamText({ turns: [{ steps: [streamError] }, answer] }, true)
+
+    expect(parts.find((part) => part.type === "raw")).toMatchObject({ rawValue: { type: "codex.retry", attempt: 1 } })
+  })
+
+  test("does not start over after text has streamed", async () => {
+    const parts = await streamText({
+      turns: [{ steps: [{ event: { type: "agent_message_delta", delta: "Hello wor" } }, streamError] }, answer],
+    })
+
+    expect(parts.filter((part) => part.type === "text-delta").map((part) => (part as any).delta)).toEqual(["Hello wor"])
+    expect((parts.at(-1) as any).providerMetadata?.codex?.retries).toBeUndefined()
+    expect(parts.find((part) => part.type === "error")).toMatchObject({ error: { kind: "stream" } })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, test, expect } from "bun:test"
+import path from "node:path"
+import { CodexMCPClient } from "../../src/codexClient"
+import { BaseTransport } from "../../src/transport"
+import type { JsonRpcMessage, JsonValue } from "../../src/types"
+import { workspaceRoots } from "../../src/utils"
+
+// Answers initialize in memory and lets the test play the server's side.
+class MemoryServer extends BaseTransport {
+  readonly sent: any[] = []
+
+  send(message: JsonRpcMessage) {
+    this.sent.push(message)
+    if ("method" in message && message.method === "initialize" && "id" in message) {
+      queueMicrotask(() => this.deliver({ jsonrpc: "2.0", id: message.id, result: { protocolVersion: "2025-06-18", capabilities: {} } }))
+    }
+  }
+
+  receive(message: JsonValue) {
+    this.deliver(message)
+  }
+
+  protected shutdown() {}
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe("MCP roots", () => {
+  test("advertises the roots capability", async () => {
+    const server = new MemoryServer()
+    const client = new CodexMCPClient(server)
+    await client.initialize()
+    expect(server.sent[0].params.capabilities.roots).toEqual({ listChanged: true })
+  })
+
+  test("answers roots/list with the configured directories", async () => {
+    const server = new MemoryServer()
+    const client = new CodexMCPClient(server)
+    client.setRoots(workspaceRoots("/work/app", ["../shared"]))
+    await client.initialize()
+
+    server.receive({ jsonrpc: "2.0", id: "r1", method: "roots/list" })
+    await tick()
+    expect(server.sent.at(-1)).toEqual({
+      jsonrpc: "2.0",
+      id: "r1",
+      result: {
+        roots: [
+          { uri: "file:///work/app", name: "app" },
+          { uri: "file:///work/shared", name: "shared" },
+        ],
+      },
+    })
+  })
+
+  test("announces a changed list once initialized", async () => {
+    const server = new MemoryServer()
+    const client = new CodexMCPClient(server)
+    client.setRoots(workspaceRoots("/work/app"))
+    await client.initialize()
+
+    client.setRoots(workspaceRoots("/work/app"))
+    client.setRoots(workspaceRoots("/work/other"))
+    const changes = server.sent.filter((message) => message.method === "notifications/roots/list_changed")
+    expect(changes).toHaveLength(1)
+  })
+})
+
+describe("workspaceRoots", () => {
+  test("resolves relative directories against cwd and drops duplicates", () => {
+    const cwd = path.resolve("/work/app")
+    expect(workspaceRoots(cwd, [".", "docs", "/work/app/docs"]).map((root) => root.uri)).toEqual([
+      "file:///work/app",
+      "file:///work/app/docs",
+    ])
+  })
+})
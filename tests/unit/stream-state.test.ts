@@ -0,0 +1,62 @@
+import { describe, test, expect } from "bun:test"
+import type { LanguageModelV2StreamPart } from "@ai-sdk/provider"
+import { StreamState } from "../../src/stream-state"
+import { resolveReasoningMode } from "../../src/utils"
+
+async function collectParts(includeReasoning: boolean, run: (state: StreamState) => void) {
+  let controller!: ReadableStreamDefaultController<LanguageModelV2StreamPart>
+  const stream = new ReadableStream<LanguageModelV2StreamPart>({
+    start: (c) => {
+      controller = c
+    },
+  })
+  const state = new StreamState(controller, () => {}, includeReasoning)
+  run(state)
+  state.finish("stop")
+
+  const parts: LanguageModelV2StreamPart[] = []
+  const reader = stream.getReader()
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    parts.push(value)
+  }
+  return parts
+}
+
+describe("StreamState reasoning", () => {
+  test("emits reasoning as reasoning-start/delta/end parts", async () => {
+    const parts = await collectParts(true, (state) => {
+      state.pushReasoning("Planning the change", "agent_reasoning_delta")
+      state.pushDelta("text", "Done.")
+    })
+
+    expect(parts.map((part) => part.type)).toEqual([
+      "reasoning-start",
+      "reasoning-delta",
+      "text-start",
+      "text-delta",
+      "reasoning-end",
+      "text-end",
+      "finish",
+    ])
+    expect(parts[1]).toEqual({ type: "reasoning-delta", id: "codex-reasoning", delta: "Planning the change" })
+  })
+
+  test("drops reasoning when it is disabled", async () => {
+    const parts = await collectParts(false, (state) => {
+      state.pushReasoning("hidden")
+      state.pushDelta("text", "visible")
+    })
+
+    expect(parts.some((part) => part.type.startsWith("reasoning"))).toBe(false)
+  })
+})
+
+describe("resolveReasoningMode", () => {
+  test("defaults to summaries and honours the legacy streamReasoning flag", () => {
+    expect(resolveReasoningMode({})).toBe("summary")
+    expect(resolveReasoningMode({ streamReasoning: false })).toBe("none")
+    expect(resolveReasoningMode({ streamReasoning: false, reasoningMode: "raw" })).toBe("raw")
+  })
+})
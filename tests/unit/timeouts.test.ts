@@ -0,0 +1,129 @@
+import { describe, test, expect } from "bun:test"
+import { CodexMCPClient } from "../../src/codexClient"
+import { CodexIdleTimeoutError, CodexInitializeTimeoutError, CodexTotalTimeoutError } from "../../src/errors"
+import { StdioTransport } from "../../src/transport"
+
+/**
+ * Spawns a stand-in MCP server. `handle(message, send)` decides how it answers;
+ * every received message is echoed to stderr for the assertions below.
+ */
+function fakeServer(handle: string) {
+  const script = `
+    const readline = require("readline")
+    const send = (message) => process.stdout.write(JSON.stringify(message) + "\\n")
+    const handle = ${handle}
+    readline.createInterface({ input: process.stdin }).on("line", (line) => {
+      const message = JSON.parse(line)
+      process.stderr.write(line + "\\n")
+      handle(message, send)
+    })
+  `
+  const transport = new StdioTransport(process.execPath, ["-e", script])
+  const client = new CodexMCPClient(transport)
+  const received = () => transport.stderr
+  return { client, received }
+}
+
+const initializeAndPing = `(message, send) => {
+  if (message.method === "initialize" || message.method === "ping") send({ jsonrpc: "2.0", id: message.id, result: {} })
+}`
+
+describe("CodexMCPClient timeouts", () => {
+  test("fails the handshake with a typed error", async () => {
+    const { client } = fakeServer(`(message, send) => {
+      if (message.method === "ping") send({ jsonrpc: "2.0", id: message.id, result: {} })
+    }`)
+    try {
+      const error = await client.initialize(undefined, { timeout: 100 }).catch((error) => error)
+      expect(error).toBeInstanceOf(CodexInitializeTimeoutError)
+      expect(error.timeoutMs).toBe(100)
+    } finally {
+      await client.close()
+    }
+  })
+
+  test("tears the process down instead of cancelling a late handshake", async () => {
+    const { client, received } = fakeServer(`() => {}`)
+    try {
+      const error = await client.initialize(undefined, { timeout: 100 }).catch((error) => error)
+      expect(error).toBeInstanceOf(CodexInitializeTimeoutError)
+      expect(client.isClosed()).toBe(true)
+
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      expect(received()).toContain('"method":"initialize"')
+      expect(received()).not.toContain('"method":"notifications/cancelled"')
+    } finally {
+      await client.close()
+    }
+  })
+
+  test("cancels a call that goes quiet and keeps a responsive process", async () => {
+    const { client, received } = fakeServer(initializeAndPing)
+    try {
+      await client.initialize()
+      const error = await client.callCodex({ prompt: "hi" }, { idleTimeout: 150 }).catch((error) => error)
+      expect(error).toBeInstanceOf(CodexIdleTimeoutError)
+
+      await new Promise((resolve) => setTimeout(resolve, 200))
+      expect(received()).toContain('"method":"notifications/cancelled"')
+      expect(client.isClosed()).toBe(false)
+    } finally {
+      await client.close()
+    }
+  })
+
+  test("notifications for the call keep it alive until the total deadline", async () => {
+    const { client } = fakeServer(`(message, send) => {
+      if (message.method === "initialize") send({ jsonrpc: "2.0", id: message.id, result: {} })
+      if (message.method === "tools/call") {
+        setInterval(() => send({ jsonrpc: "2.0", method: "codex/event", params: { _meta: { requestId: message.id }, msg: { type: "agent_message_delta", delta: "." } } }), 30)
+      }
+    }`)
+    try {
+      await client.initialize()
+      const error = await client
+        .callCodex({ prompt: "hi" }, { idleTimeout: 100, totalTimeout: 400 })
+        .catch((error) => error)
+      expect(error).toBeInstanceOf(CodexTotalTimeoutError)
+    } finally {
+      await client.close()
+    }
+  })
+
+  test("holds the idle timeout while the caller expects silence", async () => {
+    const { client } = fakeServer(`(message, send) => {
+      if (message.method === "initialize") send({ jsonrpc: "2.0", id: message.id, result: {} })
+      if (message.method === "tools/call") {
+        setTimeout(() => send({ jsonrpc: "2.0", id: message.id, result: { content: [] } }), 300)
+      }
+    }`)
+    try {
+      await client.initialize()
+      const { result } = await client.callCodex({ prompt: "hi" }, { idleTimeout: 100, holdIdleTimeout: () => true })
+      expect(result).toEqual({ content: [] })
+    } finally {
+      await client.close()
+    }
+  })
+
+  test(
+    "kills a process that stops answering",
+    async () => {
+      const { client } = fakeServer(`(message, send) => {
+        if (message.method === "initialize") send({ jsonrpc: "2.0", id: message.id, result: {} })
+      }`)
+      const errors: Error[] = []
+      client.onError((error) => errors.push(error))
+      try {
+        await client.initialize()
+        await client.callCodex({ prompt: "hi" }, { totalTimeout: 100 }).catch(() => {})
+        await new Promise((resolve) => setTimeout(resolve, 5500))
+        expect(client.isClosed()).toBe(true)
+        expect(errors[0]?.message).toContain("stopped responding")
+      } finally {
+        await client.close()
+      }
+    },
+    10_000,
+  )
+})
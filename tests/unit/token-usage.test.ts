@@ -0,0 +1,60 @@
+import { describe, test, expect } from "bun:test"
+import { addUsage, parseTokenUsage } from "../../src/utils"
+
+describe("Token usage", () => {
+  test("reads the last request usage from nested token_count events", () => {
+    const usage = parseTokenUsage({
+      type: "token_count",
+      info: {
+        total_token_usage: { input_tokens: 9000, output_tokens: 900, total_tokens: 9900 },
+        last_token_usage: {
+          input_tokens: 1200,
+          cached_input_tokens: 1000,
+          output_tokens: 300,
+          reasoning_output_tokens: 120,
+          total_tokens: 1500,
+        },
+        model_context_window: 272000,
+      },
+    })
+
+    expect(usage).toEqual({
+      inputTokens: 1200,
+      outputTokens: 300,
+      totalTokens: 1500,
+      reasoningTokens: 120,
+      cachedInputTokens: 1000,
+    })
+  })
+
+  test("reads flat token_count events from older Codex versions", () => {
+    const usage = parseTokenUsage({ type: "token_count", input_tokens: 10, output_tokens: 5 })
+
+    expect(usage).toEqual({
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: 15,
+      reasoningTokens: undefined,
+      cachedInputTokens: undefined,
+    })
+  })
+
+  test("ignores token_count events without counters", () => {
+    expect(parseTokenUsage({ type: "token_count", info: null })).toBeUndefined()
+    expect(parseTokenUsage({ type: "token_count", info: { last_token_usage: {} } })).toBeUndefined()
+  })
+
+  test("accumulates usage across the requests of a turn", () => {
+    const empty = { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined }
+    const first = { inputTokens: 100, outputTokens: 10, totalTokens: 110, cachedInputTokens: 80 }
+    const second = { inputTokens: 200, outputTokens: 20, totalTokens: 220, reasoningTokens: 5 }
+
+    expect(addUsage(addUsage(empty, first), second)).toEqual({
+      inputTokens: 300,
+      outputTokens: 30,
+      totalTokens: 330,
+      reasoningTokens: 5,
+      cachedInputTokens: 80,
+    })
+  })
+})
@@ -0,0 +1,196 @@
+import { describe, test, expect } from "bun:test"
+import type { LanguageModelV2FunctionTool, LanguageModelV2Prompt } from "@ai-sdk/provider"
+import {
+  findSuspendedTurn,
+  ToolBridgeServer,
+  ToolCallRelay,
+  toBridgedTools,
+  toCallToolResult,
+  toolChoiceWarning,
+  type SuspendedTurn,
+} from "../../src/toolBridge"
+
+const readTool: LanguageModelV2FunctionTool = {
+  type: "function",
+  name: "read",
+  description: "Read a file",
+  inputSchema: { type: "object", properties: { filePath: { type: "string" } }, required: ["filePath"] },
+}
+
+const lspTool: LanguageModelV2FunctionTool = {
+  type: "function",
+  name: "lsp_diagnostics",
+  inputSchema: { type: "object" },
+}
+
+async function rpc(url: string, method: string, params?: unknown, id = 1) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+    body: JSON.stringify({ jsonrpc: "2.0", id, method, params }),
+  })
+  return (await response.json()) as any
+}
+
+describe("ToolBridgeServer", () => {
+  test("serves the session's tools over MCP and forwards calls to the handler", async () => {
+    const bridge = new ToolBridgeServer()
+    try {
+      const session = await bridge.openSession(toBridgedTools([readTool], undefined))
+      session.handler = async (call) => ({
+        content: [{ type: "text", text: `read ${call.arguments["filePath"]}` }],
+      })
+
+      const init = await rpc(session.url, "initialize", { protocolVersion: "2025-06-18", capabilities: {} })
+      expect(init.result.capabilities.tools).toBeDefined()
+
+      const list = await rpc(session.url, "tools/list", {}, 2)
+      expect(list.result.tools).toEqual([
+        { name: "read", description: "Read a file", inputSchema: readTool.inputSchema },
+      ])
+
+      const call = await rpc(session.url, "tools/call", { name: "read", arguments: { filePath: "a.ts" } }, 3)
+      expect(call.result).toEqual({ content: [{ type: "text", text: "read a.ts" }] })
+
+      const unknown = await rpc(session.url, "tools/call", { name: "bash", arguments: {} }, 4)
+      expect(unknown.result.isError).toBe(true)
+    } finally {
+      bridge.close()
+    }
+  })
+
+  test("copes with malformed requests and notifications", async () => {
+    const bridge = new ToolBridgeServer()
+    try {
+      const session = await bridge.openSession(toBridgedTools([readTool], undefined))
+      session.handler = async (call) => ({ content: [{ type: "text", text: JSON.stringify(call.arguments) }] })
+
+      const init = await rpc(session.url, "initialize", { protocolVersion: 7 })
+      expect(init.result.protocolVersion).toBe("2025-06-18")
+
+      const call = await rpc(session.url, "tools/call", { name: "read", arguments: ["a.ts"] }, 2)
+      expect(call.result).toEqual({ content: [{ type: "text", text: "{}" }] })
+
+      const notification = await fetch(session.url, {
+        method: "POST",
+        body: JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+      })
+      expect(notification.status).toBe(202)
+    } finally {
+      bridge.close()
+    }
+  })
+
+  test("rejects unknown sessions", async () => {
+    const bridge = new ToolBridgeServer()
+    try {
+      const session = await bridge.openSession([])
+      const response = await fetch(session.url.replace(session.token, "missing"), { method: "POST", body: "{}" })
+      expect(response.status).toBe(404)
+    } finally {
+      bridge.close()
+    }
+  })
+})
+
+describe("ToolCallRelay", () => {
+  test("surfaces a Codex tool call, suspends the step and returns the opencode result", async () => {
+    const emitted: { toolCallId: string; toolName: string; input: unknown }[] = []
+    let suspended = 0
+    const turn: SuspendedTurn = {
+      resume: (_controller, results) => relay.resume(results),
+      cancel: () => {},
+    }
+    const relay: ToolCallRelay = new ToolCallRelay({
+      turn,
+      emit: (toolCallId, toolName, input) => emitted.push({ toolCallId, toolName, input }),
+      suspend: () => {
+        suspended += 1
+      },
+      onResultTimeout: () => {},
+      resultTimeout: 60_000,
+    })
+
+    const pending = relay.handleCall({ name: "read", arguments: { filePath: "a.ts" } })
+    await new Promise((resolve) => setTimeout(resolve, 80))
+
+    expect(emitted).toHaveLength(1)
+    expect(emitted[0]).toMatchObject({ toolName: "read", input: { filePath: "a.ts" } })
+    expect(suspended).toBe(1)
+    expect(relay.isSuspended).toBe(true)
+
+    const toolCallId = emitted[0]!.toolCallId
+    const prompt: LanguageModelV2Prompt = [
+      { role: "user", content: [{ type: "text", text: "Read a.ts" }] },
+      {
+        role: "assistant",
+        content: [{ type: "tool-call", toolCallId, toolName: "read", input: { filePath: "a.ts" } }],
+      },
+      {
+        role: "tool",
+        content: [{ type: "tool-result", toolCallId, toolName: "read", output: { type: "text", value: "hello" } }],
+      },
+    ]
+
+    const found = findSuspendedTurn(prompt)
+    expect(found?.turn).toBe(turn)
+    found!.turn.resume({} as any, found!.results)
+
+    expect(await pending).toEqual({ content: [{ type: "text", text: "hello" }] })
+    expect(relay.isSuspended).toBe(false)
+    expect(findSuspendedTurn(prompt)).toBeUndefined()
+  })
+
+  test("answers outstanding calls with an error when the turn is cancelled", async () => {
+    const relay = new ToolCallRelay({
+      turn: { resume: () => {}, cancel: () => {} },
+      emit: () => {},
+      suspend: () => {},
+      onResultTimeout: () => {},
+      resultTimeout: 60_000,
+    })
+
+    const pending = relay.handleCall({ name: "read", arguments: {} })
+    relay.cancel("turn ended")
+
+    expect(await pending).toEqual({ content: [{ type: "text", text: "turn ended" }], isError: true })
+  })
+})
+
+describe("toBridgedTools", () => {
+  test("honours toolChoice", () => {
+    expect(toBridgedTools([readTool, lspTool], { type: "auto" }).map((tool) => tool.name)).toEqual([
+      "read",
+      "lsp_diagnostics",
+    ])
+    expect(toBridgedTools([readTool, lspTool], { type: "none" })).toEqual([])
+    expect(toBridgedTools([readTool, lspTool], { type: "tool", toolName: "lsp_diagnostics" })).toHaveLength(1)
+    expect(toBridgedTools(undefined, undefined)).toEqual([])
+  })
+})
+
+describe("toolChoiceWarning", () => {
+  test("reports tool choices that demand a call", () => {
+    expect(toolChoiceWarning({ type: "required" })).toMatchObject({ type: "unsupported-setting", setting: "toolChoice" })
+    expect(toolChoiceWarning({ type: "tool", toolName: "read" })).toMatchObject({
+      details: expect.stringContaining('only "read" is offered'),
+    })
+    expect(toolChoiceWarning({ type: "auto" })).toBeUndefined()
+    expect(toolChoiceWarning(undefined)).toBeUndefined()
+  })
+})
+
+describe("toCallToolResult", () => {
+  test("converts opencode tool outputs to MCP results", () => {
+    expect(toCallToolResult({ type: "json", value: { ok: true } })).toEqual({
+      content: [{ type: "text", text: '{\n  "ok": true\n}' }],
+    })
+    expect(toCallToolResult({ type: "error-text", value: "denied" })).toEqual({
+      content: [{ type: "text", text: "denied" }],
+      isError: true,
+    })
+    expect(
+      toCallToolResult({ type: "content", value: [{ type: "media", data: "AAAA", mediaType: "image/png" }] }),
+    ).toEqual({ content: [{ type: "image", data: "AAAA", mimeType: "image/png" }] })
+  })
+})
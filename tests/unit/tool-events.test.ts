@@ -0,0 +1,155 @@
+import { describe, test, expect } from "bun:test"
+import type { LanguageModelV2StreamPart } from "@ai-sdk/provider"
+import { StreamState } from "../../src/stream-state"
+import { EXEC_TOOL_NAME, ExecCommandTracker, PATCH_TOOL_NAME, PatchApplyTracker, parseDuration } from "../../src/toolEvents"
+
+async function collectParts(run: (state: StreamState) => void) {
+  let controller!: ReadableStreamDefaultController<LanguageModelV2StreamPart>
+  const stream = new ReadableStream<LanguageModelV2StreamPart>({
+    start: (c) => {
+      controller = c
+    },
+  })
+  const state = new StreamState(controller, () => {}, true)
+  run(state)
+  state.finish("stop")
+
+  const parts: LanguageModelV2StreamPart[] = []
+  const reader = stream.getReader()
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    parts.push(value)
+  }
+  return parts
+}
+
+const base64 = (value: string) => Buffer.from(value).toString("base64")
+
+describe("ExecCommandTracker", () => {
+  test("maps a command run to tool-call and tool-result parts", async () => {
+    const parts = await collectParts((state) => {
+      const tracker = new ExecCommandTracker(state)
+      tracker.begin({ call_id: "call-1", command: ["bash", "-lc", "ls -la"], cwd: "/repo" })
+      tracker.outputDelta({ call_id: "call-1", stream: "stdout", chunk: base64("README.md\n") })
+      tracker.outputDelta({ call_id: "call-1", stream: "stderr", chunk: base64("warning\n") })
+      tracker.end({ call_id: "call-1", exit_code: 0, duration: { secs: 1, nanos: 500_000_000 } })
+    })
+
+    const call = parts.find((part) => part.type === "tool-call")
+    const result = parts.find((part) => part.type === "tool-result")
+
+    expect(call).toMatchObject({ toolCallId: "call-1", toolName: EXEC_TOOL_NAME, providerExecuted: true })
+    expect(JSON.parse((call as any).input)).toEqual({
+      command: "bash -lc 'ls -la'",
+      argv: ["bash", "-lc", "ls -la"],
+      cwd: "/repo",
+    })
+    expect(result).toMatchObject({
+      toolCallId: "call-1",
+      toolName: EXEC_TOOL_NAME,
+      isError: false,
+      providerExecuted: true,
+      result: {
+        command: "bash -lc 'ls -la'",
+        cwd: "/repo",
+        exitCode: 0,
+        durationMs: 1500,
+        stdout: "README.md\n",
+        stderr: "warning\n",
+        aggregatedOutput: "README.md\n\nwarning\n",
+      },
+    })
+  })
+
+  test("prefers the output Codex reports at the end and flags failures", async () => {
+    const parts = await collectParts((state) => {
+      const tracker = new ExecCommandTracker(state)
+      tracker.begin({ call_id: "call-2", command: ["false"], cwd: "/repo" })
+      tracker.end({ call_id: "call-2", exit_code: 1, stderr: "boom", aggregated_output: "boom", duration: "120ms" })
+    })
+
+    const result = parts.find((part) => part.type === "tool-result") as any
+    expect(result.isError).toBe(true)
+    expect(result.result.exitCode).toBe(1)
+    expect(result.result.aggregatedOutput).toBe("boom")
+    expect(result.result.durationMs).toBe(120)
+  })
+
+  test("emits the tool call when only the end event arrives", async () => {
+    const parts = await collectParts((state) => {
+      new ExecCommandTracker(state).end({ call_id: "call-3", command: ["pwd"], exit_code: 0 })
+    })
+
+    expect(parts.map((part) => part.type)).toEqual(["tool-call", "tool-result", "finish"])
+  })
+})
+
+describe("parseDuration", () => {
+  test("understands the formats Codex emits", () => {
+    expect(parseDuration({ secs: 2, nanos: 0 })).toBe(2000)
+    expect(parseDuration(250)).toBe(250)
+    expect(parseDuration("1.5s")).toBe(1500)
+    expect(parseDuration("nonsense")).toBeUndefined()
+  })
+})
+
+describe("PatchApplyTracker", () => {
+  test("maps an applied patch to tool parts with per-file diffs", async () => {
+    const parts = await collectParts((state) => {
+      const tracker = new PatchApplyTracker(state)
+      tracker.begin({
+        call_id: "patch-1",
+        auto_approved: true,
+        changes: {
+          "src/new.ts": { add: { content: "export const a = 1\n" } },
+          "src/old.ts": { delete: { content: "gone\n" } },
+          "src/edit.ts": { update: { unified_diff: "@@ -1 +1 @@\n-a\n+b\n", move_path: "src/moved.ts" } },
+        },
+      })
+      tracker.end({ call_id: "patch-1", success: true, stdout: "Success. Updated the following files" })
+    })
+
+    const call = parts.find((part) => part.type === "tool-call") as any
+    const result = parts.find((part) => part.type === "tool-result") as any
+
+    expect(call.toolName).toBe(PATCH_TOOL_NAME)
+    expect(JSON.parse(call.input)).toEqual({
+      autoApproved: true,
+      changes: [
+        { path: "src/new.ts", kind: "add" },
+        { path: "src/old.ts", kind: "delete" },
+        { path: "src/edit.ts", kind: "update", movePath: "src/moved.ts" },
+      ],
+    })
+    expect(result.isError).toBe(false)
+    expect(result.result.success).toBe(true)
+    expect(result.result.changes[0].diff).toBe("--- /dev/null\n+++ b/src/new.ts\n@@ -0,0 +1,1 @@\n+export const a = 1\n")
+    expect(result.result.changes[1].diff).toBe("--- a/src/old.ts\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-gone\n")
+    expect(result.result.changes[2].diff).toBe("@@ -1 +1 @@\n-a\n+b\n")
+  })
+
+  test("flags failed patches as errors", async () => {
+    const parts = await collectParts((state) => {
+      const tracker = new PatchApplyTracker(state)
+      tracker.begin({ call_id: "patch-2", changes: { "a.txt": { type: "update", unified_diff: "@@" } } })
+      tracker.end({ call_id: "patch-2", success: false, stderr: "hunk failed" })
+    })
+
+    const result = parts.find((part) => part.type === "tool-result") as any
+    expect(result.isError).toBe(true)
+    expect(result.result.stderr).toBe("hunk failed")
+    expect(result.result.changes).toEqual([{ path: "a.txt", kind: "update", diff: "@@" }])
+  })
+
+  test("attaches metadata to the finish part", async () => {
+    const parts = await collectParts((state) => {
+      state.setMetadata("turnDiff", "diff --git a/x b/x")
+    })
+
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      providerMetadata: { codex: { turnDiff: "diff --git a/x b/x" } },
+    })
+  })
+})
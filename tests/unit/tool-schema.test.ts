@@ -0,0 +1,102 @@
+import { describe, test, expect, spyOn } from "bun:test"
+import { CodexMCPClient } from "../../src/codexClient"
+import { CodexProtocolError } from "../../src/errors"
+import { prepareToolArguments } from "../../src/toolSchema"
+import { StdioTransport } from "../../src/transport"
+import type { McpTool } from "../../src/types"
+import { CODEX_TOOLS, FAKE_CODEX_SERVER, type FakeCodexScenario } from "../fixtures/fake-codex"
+
+const codexSchema = CODEX_TOOLS[0]!.inputSchema
+
+function fakeClient(scenario: FakeCodexScenario) {
+  return new CodexMCPClient(new StdioTransport(process.execPath, [FAKE_CODEX_SERVER, JSON.stringify(scenario)]))
+}
+
+describe("prepareToolArguments", () => {
+  test("passes arguments that match the schema", () => {
+    const args = { prompt: "Hi", sandbox: "read-only", config: { model_reasoning_effort: "low" } }
+    expect(prepareToolArguments(codexSchema, args)).toEqual({ args, dropped: [], errors: [] })
+  })
+
+  test("drops keys the schema does not declare", () => {
+    const prepared = prepareToolArguments(codexSchema, { prompt: "Hi", "include-plan-tool": false, "old-flag": 1 })
+    expect(prepared.args).toEqual({ prompt: "Hi", "include-plan-tool": false })
+    expect(prepared.dropped).toEqual(["old-flag"])
+    expect(prepared.errors).toEqual([])
+  })
+
+  test("reports missing, mistyped and out-of-range values", () => {
+    const prepared = prepareToolArguments(codexSchema, { sandbox: "anything", cwd: 42 })
+    expect(prepared.errors).toEqual([
+      "arguments.prompt: required",
+      'arguments.sandbox: must be one of "read-only", "workspace-write", "danger-full-access"',
+      "arguments.cwd: expected string, got number",
+    ])
+  })
+
+  test("leaves arguments alone when the schema allows extra keys", () => {
+    const prepared = prepareToolArguments({ type: "object", additionalProperties: true, properties: {} }, { extra: true })
+    expect(prepared).toEqual({ args: { extra: true }, dropped: [], errors: [] })
+  })
+})
+
+describe("tools/list discovery", () => {
+  test("lists the server's tools after initialize", async () => {
+    const client = fakeClient({})
+    try {
+      await client.initialize()
+      expect(client.availableTools()?.map((tool) => tool.name)).toEqual(["codex", "codex-reply"])
+    } finally {
+      await client.close()
+    }
+  })
+
+  test("warns once about dropped arguments and sends the rest", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {})
+    const client = fakeClient({ turns: [{ steps: [{ result: "one" }] }, { steps: [{ result: "two" }] }] })
+    try {
+      await client.callCodex({ prompt: "Hi", "include-plan-tool": false, "old-flag": true })
+      await client.callCodex({ prompt: "Hi", "old-flag": true })
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(String(warn.mock.calls[0]?.[0])).toContain('"old-flag"')
+    } finally {
+      warn.mockRestore()
+      await client.close()
+    }
+  })
+
+  test("rejects invalid arguments before sending them", async () => {
+    const client = fakeClient({})
+    try {
+      const error = await client.callCodex({ prompt: "Hi", sandbox: "everything" }).catch((error) => error)
+      expect(error).toBeInstanceOf(CodexProtocolError)
+      expect(error.data).toMatchObject({ tool: "codex" })
+    } finally {
+      await client.close()
+    }
+  })
+
+  test("fails calls to tools the server does not offer", async () => {
+    const tools: McpTool[] = [CODEX_TOOLS[0]!]
+    const client = fakeClient({ tools })
+    try {
+      const error = await client.callCodexReply({ conversationId: "c1", prompt: "Hi" }).catch((error) => error)
+      expect(error).toBeInstanceOf(CodexProtocolError)
+      expect(error.message).toContain('does not offer the "codex-reply" tool')
+    } finally {
+      await client.close()
+    }
+  })
+
+  test("skips validation when the server announces no tools capability", async () => {
+    const client = fakeClient({ initialize: { result: { protocolVersion: "2025-06-18", capabilities: {} } } })
+    try {
+      await client.initialize()
+      expect(client.availableTools()).toBeUndefined()
+      const { result } = await client.callCodex({ prompt: "Hi", anything: 1 })
+      expect(result).toBeDefined()
+    } finally {
+      await client.close()
+    }
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, test, expect } from "bun:test"
+import type { LanguageModelV2Prompt } from "@ai-sdk/provider"
+import {
+  estimateTokens,
+  fitTranscript,
+  renderTranscript,
+  resolveHistoryBudget,
+  toTranscriptTurns,
+} from "../../src/transcript"
+
+const history: LanguageModelV2Prompt = [
+  { role: "system", content: "Be terse." },
+  { role: "user", content: [{ type: "text", text: "What is in a.ts?" }] },
+  {
+    role: "assistant",
+    content: [
+      { type: "reasoning", text: "I should read the file." },
+      { type: "text", text: "Let me look." },
+      { type: "tool-call", toolCallId: "call_1", toolName: "read", input: { path: "a.ts" } },
+    ],
+  },
+  {
+    role: "tool",
+    content: [
+      { type: "tool-result", toolCallId: "call_1", toolName: "read", output: { type: "text", value: "export const a = 1" } },
+    ],
+  },
+  { role: "assistant", content: [{ type: "text", text: "It exports a." }] },
+  { role: "user", content: [{ type: "text", text: "And b.ts?" }] },
+]
+
+describe("toTranscriptTurns", () => {
+  test("keeps the messages in order and leaves out system messages and reasoning", () => {
+    const turns = toTranscriptTurns(history)
+    expect(turns.map((turn) => turn.role)).toEqual(["user", "assistant", "tool", "assistant", "user"])
+    expect(turns[1]!.blocks).toEqual([
+      { type: "text", text: "Let me look." },
+      { type: "tool-call", toolCallId: "call_1", toolName: "read", input: { path: "a.ts" } },
+    ])
+  })
+
+  test("keeps messages whose content is a plain string", () => {
+    const prompt = [{ role: "user", content: "hello there" }] as unknown as LanguageModelV2Prompt
+    const turns = toTranscriptTurns(prompt)
+    expect(turns).toEqual([{ role: "user", blocks: [{ type: "text", text: "hello there" }] }])
+    expect(renderTranscript(turns)).toBe("hello there")
+  })
+
+  test("formats tool outputs as text and flags errors", () => {
+    const [turn] = toTranscriptTurns([
+      {
+        role: "tool",
+        content: [
+          { type: "tool-result", toolCallId: "1", toolName: "ls", output: { type: "json", value: { files: ["a"] } } },
+          { type: "tool-result", toolCallId: "2", toolName: "ls", output: { type: "error-text", value: "denied" } },
+          {
+            type: "tool-result",
+            toolCallId: "3",
+            toolName: "shot",
+            output: {
+              type: "content",
+              value: [
+                { type: "text", text: "Screenshot:" },
+                { type: "media", data: "AAAA", mediaType: "image/png" },
+              ],
+            },
+          },
+        ],
+      },
+    ])
+    expect(turn!.blocks).toEqual([
+      { type: "tool-result", toolCallId: "1", toolName: "ls", output: '{\n  "files": [\n    "a"\n  ]\n}', isError: false },
+      { type: "tool-result", toolCallId: "2", toolName: "ls", output: "denied", isError: true },
+      { type: "tool-result", toolCallId: "3", toolName: "shot", output: "Screenshot:\n[image/png content]", isError: false },
+    ])
+  })
+})
+
+describe("renderTranscript", () => {
+  test("sends a lone user message as it is", () => {
+    const turns = toTranscriptTurns([{ role: "user", content: [{ type: "text", text: "Hello" }] }])
+    expect(renderTranscript(turns)).toBe("Hello")
+  })
+
+  test("labels each turn and shows tool calls with their arguments", () => {
+    expect(renderTranscript(toTranscriptTurns(history))).toBe(
+      [
+        "The conversation so far, oldest first. Continue from the last message.",
+        "## User\nWhat is in a.ts?",
+        '## Assistant\nLet me look.\n\nCalled `read` (call_1) with:\n{\n  "path": "a.ts"\n}',
+        "## Tool\nResult of `read` (call_1):\nexport const a = 1",
+        "## Assistant\nIt exports a.",
+        "## User\nAnd b.ts?",
+      ].join("\n\n"),
+    )
+  })
+})
+
+describe("fitTranscript", () => {
+  const turns = toTranscriptTurns(history)
+
+  test("keeps everything that fits", () => {
+    expect(fitTranscript(turns, renderTranscript, 10_000).dropped).toEqual([])
+    expect(fitTranscript(turns, renderTranscript).kept).toBe(turns)
+  })
+
+  test("leaves out the oldest turns first", () => {
+    const budget = estimateTokens(renderTranscript(turns.slice(3)))
+    const fitted = fitTranscript(turns, renderTranscript, budget)
+    expect(fitted.kept).toEqual(turns.slice(3))
+    expect(fitted.dropped).toEqual(turns.slice(0, 3))
+    expect(fitted.text).toBe(renderTranscript(turns.slice(3)))
+  })
+
+  test("does not open with the results of calls it left out", () => {
+    const budget = estimateTokens(renderTranscript(turns.slice(2)))
+    expect(fitTranscript(turns, renderTranscript, budget).kept[0]!.role).toBe("assistant")
+  })
+
+  test("always keeps the last turn", () => {
+    const fitted = fitTranscript(turns, renderTranscript, 1)
+    expect(fitted.kept).toEqual(turns.slice(-1))
+    expect(fitted.text).toBe("And b.ts?")
+  })
+
+  test("holds back room for a summary", () => {
+    const budget = estimateTokens(renderTranscript(turns.slice(3)))
+    expect(fitTranscript(turns, renderTranscript, budget, true).kept.length).toBeLessThan(3)
+  })
+})
+
+describe("resolveHistoryBudget", () => {
+  test("takes a share of the context window", () => {
+    expect(resolveHistoryBudget({ contextWindow: 200_000 })).toBe(100_000)
+    expect(resolveHistoryBudget({ contextWindow: 200_000, historyLimit: { contextShare: 0.25 } })).toBe(50_000)
+  })
+
+  test("prefers an explicit token budget", () => {
+    expect(resolveHistoryBudget({ contextWindow: 200_000, historyLimit: { maxTokens: 4_000 } })).toBe(4_000)
+  })
+
+  test("is unlimited without a context window or when switched off", () => {
+    expect(resolveHistoryBudget({})).toBeUndefined()
+    expect(resolveHistoryBudget({ contextWindow: 200_000, historyLimit: false })).toBeUndefined()
+  })
+})
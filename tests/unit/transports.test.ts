@@ -0,0 +1,145 @@
+import { describe, test, expect } from "bun:test"
+import { CodexMCPClient } from "../../src/codexClient"
+import { CodexConnectionError } from "../../src/errors"
+import { HttpTransport } from "../../src/httpTransport"
+import type { JsonRpcNotification } from "../../src/types"
+import { WebSocketTransport } from "../../src/webSocketTransport"
+
+// What the stand-in servers answer: an initialize result, and for tools/call one event plus the result.
+function reply(message: any): any[] {
+  if (message.method === "initialize") {
+    return [{ jsonrpc: "2.0", id: message.id, result: { protocolVersion: "2025-06-18", capabilities: {} } }]
+  }
+  if (message.method === "tools/call") {
+    return [
+      {
+        jsonrpc: "2.0",
+        method: "codex/event",
+        params: { _meta: { requestId: message.id }, msg: { type: "agent_message_delta", delta: "Hi" } },
+      },
+      { jsonrpc: "2.0", id: message.id, result: { content: [{ type: "text", text: "Hi" }] } },
+    ]
+  }
+  return []
+}
+
+async function callThrough(client: CodexMCPClient) {
+  const notifications: JsonRpcNotification[] = []
+  client.onNotification((notification) => notifications.push(notification))
+  await client.initialize()
+  const { result } = await client.callCodex({ prompt: "hello" })
+  return { result, notifications }
+}
+
+describe("HttpTransport", () => {
+  test("speaks Streamable HTTP with JSON and SSE responses", async () => {
+    const seen: { method: string; session: string | null; body?: any }[] = []
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const session = request.headers.get("mcp-session-id")
+        if (request.method !== "POST") {
+          seen.push({ method: request.method, session })
+          return new Response(null, { status: request.method === "DELETE" ? 200 : 405 })
+        }
+        const body = (await request.json()) as any
+        seen.push({ method: "POST", session, body })
+        const messages = reply(body)
+        if (!messages.length) return new Response(null, { status: 202 })
+        if (body.method === "initialize") {
+          return Response.json(messages[0], { headers: { "Mcp-Session-Id": "session-1" } })
+        }
+        const events = messages.map((message) => `event: message\ndata: ${JSON.stringify(message)}\n\n`).join("")
+        return new Response(events, { headers: { "Content-Type": "text/event-stream" } })
+      },
+    })
+    const client = new CodexMCPClient(
+      new HttpTransport(`http://127.0.0.1:${server.port}/mcp`, { headers: { Authorization: "Bearer t" } }),
+    )
+    try {
+      const { result, notifications } = await callThrough(client)
+      expect(result).toEqual({ content: [{ type: "text", text: "Hi" }] })
+      expect(notifications.map((notification) => notification.method)).toEqual(["codex/event"])
+
+      const posts = seen.filter((entry) => entry.method === "POST")
+      expect(posts.map((entry) => entry.body.method)).toEqual(["initialize", "notifications/initialized", "tools/call"])
+      expect(posts.slice(1).every((entry) => entry.session === "session-1")).toBe(true)
+    } finally {
+      await client.close()
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      expect(seen.some((entry) => entry.method === "DELETE")).toBe(true)
+      server.stop(true)
+    }
+  })
+
+  test("fails a request the endpoint rejects", async () => {
+    const server = Bun.serve({ port: 0, fetch: () => new Response("upstream unavailable", { status: 503 }) })
+    const client = new CodexMCPClient(new HttpTransport(`http://127.0.0.1:${server.port}/mcp`))
+    try {
+      const error = await client.initialize().catch((error) => error)
+      expect(error.message).toContain("HTTP 503: upstream unavailable")
+      expect(client.isClosed()).toBe(false)
+    } finally {
+      await client.close()
+      server.stop(true)
+    }
+  })
+
+  test("reports an unreachable endpoint as a connection error", async () => {
+    const server = Bun.serve({ port: 0, fetch: () => new Response(null) })
+    const url = `http://127.0.0.1:${server.port}/mcp`
+    server.stop(true)
+    const client = new CodexMCPClient(new HttpTransport(url))
+    const error = await client.initialize().catch((error) => error)
+    expect(error).toBeInstanceOf(CodexConnectionError)
+    expect(error.isRetryable).toBe(true)
+  })
+})
+
+describe("WebSocketTransport", () => {
+  test("exchanges one JSON-RPC message per frame", async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch(request, server) {
+        return server.upgrade(request) ? undefined : new Response(null, { status: 400 })
+      },
+      websocket: {
+        message(socket, data) {
+          for (const message of reply(JSON.parse(String(data)))) socket.send(JSON.stringify(message))
+        },
+      },
+    })
+    const client = new CodexMCPClient(new WebSocketTransport(`ws://127.0.0.1:${server.port}/mcp`))
+    try {
+      const { result, notifications } = await callThrough(client)
+      expect(result).toEqual({ content: [{ type: "text", text: "Hi" }] })
+      expect(notifications).toHaveLength(1)
+    } finally {
+      await client.close()
+      server.stop(true)
+    }
+  })
+
+  test("fails pending requests when the server drops the connection", async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch(request, server) {
+        return server.upgrade(request) ? undefined : new Response(null, { status: 400 })
+      },
+      websocket: {
+        message(socket) {
+          socket.close(1011, "server restarting")
+        },
+      },
+    })
+    const client = new CodexMCPClient(new WebSocketTransport(`ws://127.0.0.1:${server.port}/mcp`))
+    try {
+      const error = await client.initialize().catch((error) => error)
+      expect(error).toBeInstanceOf(CodexConnectionError)
+      expect(error.message).toContain("server restarting")
+      expect(client.isClosed()).toBe(true)
+    } finally {
+      server.stop(true)
+    }
+  })
+})